@@ -1,11 +1,14 @@
 import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
 import { testDb } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
+import { AuditedLLM, type AuditEntry } from "@utils/audited-llm.ts";
 import { GeminiLLM } from "@utils/gemini-llm.ts";
+import { ManagedLLM } from "@utils/managed-llm.ts";
+import { StubLLM } from "@utils/stub-llm.ts";
 import EnrichedDAGConcept from "./EnrichedDAGConcept.ts";
 
 const userA = "user:Alice" as ID;
-const _userB = "user:Bob" as ID;
+const userB = "user:Bob" as ID;
 const enrichment1 = "enrichment:type-A" as ID;
 const enrichment2 = "enrichment:type-B" as ID;
 const enrichment3 = "enrichment:type-C" as ID;
@@ -891,3 +894,1629 @@ Deno.test("Action: suggestEdge generates AI edge suggestions", async () => {
     await client.close();
   }
 });
+
+Deno.test("Query: _getTopologicalOrder and _getLearningPath order prerequisites", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Topological Order and Learning Paths");
+
+    // Setup
+    console.log("\n## 1. Create a roadmap with prerequisites");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Programming Roadmap",
+    })) as { newGraph: ID };
+
+    const titles = [
+      "Variables",
+      "Functions",
+      "Closures",
+      "Arrays",
+      "Loops",
+      "Syntax",
+    ];
+    const nodeIds: Record<string, ID> = {};
+    for (const title of titles) {
+      const { newNode } = (await dagConcept.addNode({
+        graph: newGraph,
+        nodeTitle: title,
+        enrichment: enrichment1,
+      })) as { newNode: ID };
+      nodeIds[title] = newNode;
+    }
+
+    const prerequisites: [string, string][] = [
+      ["Variables", "Functions"],
+      ["Functions", "Closures"],
+      ["Variables", "Loops"],
+      ["Arrays", "Loops"],
+    ];
+    for (const [source, target] of prerequisites) {
+      await dagConcept.addEdge({
+        graph: newGraph,
+        sourceNode: nodeIds[source],
+        targetNode: nodeIds[target],
+        enrichment: enrichment2,
+      });
+    }
+    console.log("✓ Created graph with 6 nodes and 4 edges");
+
+    // Topological order
+    console.log("\n## 2. Query topological order");
+    const order = await dagConcept._getTopologicalOrder({ graph: newGraph });
+    assertEquals(
+      order.map((n) => n.title),
+      ["Arrays", "Syntax", "Variables", "Functions", "Closures", "Loops"],
+      "Nodes should follow prerequisites with ties broken by title",
+    );
+    console.log(`✓ Order: ${order.map((n) => n.title).join(" → ")}`);
+
+    // Learning paths
+    console.log("\n## 3. Query learning paths");
+    const loopsPath = await dagConcept._getLearningPath({
+      graph: newGraph,
+      targetNode: nodeIds["Loops"],
+    });
+    assertEquals(
+      loopsPath.map((n) => n.title),
+      ["Arrays", "Variables", "Loops"],
+      "Path to Loops should contain only its ancestors",
+    );
+
+    const closuresPath = await dagConcept._getLearningPath({
+      graph: newGraph,
+      targetNode: nodeIds["Closures"],
+    });
+    assertEquals(
+      closuresPath.map((n) => n.title),
+      ["Variables", "Functions", "Closures"],
+      "Path to Closures should follow the prerequisite chain",
+    );
+
+    const syntaxPath = await dagConcept._getLearningPath({
+      graph: newGraph,
+      targetNode: nodeIds["Syntax"],
+    });
+    assertEquals(
+      syntaxPath.map((n) => n.title),
+      ["Syntax"],
+      "A node without prerequisites is its own path",
+    );
+    console.log("✓ Learning paths contain exactly the required nodes");
+
+    // Node outside the graph
+    console.log("\n## 4. Query learning path for a node outside the graph");
+    const missingPath = await dagConcept._getLearningPath({
+      graph: newGraph,
+      targetNode: "node:missing" as ID,
+    });
+    assertEquals(missingPath.length, 0, "Unknown node should give empty path");
+    console.log("✓ Empty path returned for unknown node");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: addEdge checks cycles per graph and migrateEdgeGraphs backfills edges", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Per-Graph Edges and Edge Migration");
+
+    // Setup
+    console.log("\n## 1. Create two graphs with an edge each");
+    const { newGraph: graph1 } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Graph One",
+    })) as { newGraph: ID };
+    const { newGraph: graph2 } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Graph Two",
+    })) as { newGraph: ID };
+
+    const { newNode: nodeA } = (await dagConcept.addNode({
+      graph: graph1,
+      nodeTitle: "A",
+      enrichment: enrichment1,
+    })) as { newNode: ID };
+    const { newNode: nodeB } = (await dagConcept.addNode({
+      graph: graph1,
+      nodeTitle: "B",
+      enrichment: enrichment2,
+    })) as { newNode: ID };
+    const { newNode: nodeC } = (await dagConcept.addNode({
+      graph: graph2,
+      nodeTitle: "C",
+      enrichment: enrichment3,
+    })) as { newNode: ID };
+    const { newNode: nodeD } = (await dagConcept.addNode({
+      graph: graph2,
+      nodeTitle: "D",
+      enrichment: enrichment3,
+    })) as { newNode: ID };
+
+    const { newEdge: edge1 } = (await dagConcept.addEdge({
+      graph: graph1,
+      sourceNode: nodeA,
+      targetNode: nodeB,
+      enrichment: enrichment1,
+    })) as { newEdge: ID };
+    const { newEdge: edge2 } = (await dagConcept.addEdge({
+      graph: graph2,
+      sourceNode: nodeC,
+      targetNode: nodeD,
+      enrichment: enrichment2,
+    })) as { newEdge: ID };
+    console.log("✓ Created edges A → B and C → D");
+
+    // Edges record their graph
+    console.log("\n## 2. Verify edges record their parent graph");
+    const graph1Edges = await dagConcept._getGraphEdges({ graph: graph1 });
+    assertEquals(graph1Edges.length, 1, "Graph one should have 1 edge");
+    assertEquals(graph1Edges[0]._id, edge1, "Graph one should own A → B");
+    assertEquals(graph1Edges[0].graph, graph1, "Edge should record its graph");
+
+    const reverseResult = await dagConcept.addEdge({
+      graph: graph1,
+      sourceNode: nodeB,
+      targetNode: nodeA,
+      enrichment: enrichment1,
+    });
+    assertEquals(
+      "error" in reverseResult,
+      true,
+      "Adding B → A should still fail (creates cycle)",
+    );
+    console.log("✓ Cycle detection still works within the graph");
+
+    // Simulate edges stored before they recorded their graph
+    console.log("\n## 3. Migrate edges without a parent graph");
+    await dagConcept.edges.updateMany({}, { $unset: { graph: "" } });
+    const { migratedEdges } = await dagConcept.migrateEdgeGraphs();
+    assertEquals(migratedEdges, 2, "Both edges should be migrated");
+
+    const migrated1 = await dagConcept.edges.findOne({ _id: edge1 });
+    const migrated2 = await dagConcept.edges.findOne({ _id: edge2 });
+    assertEquals(migrated1?.graph, graph1, "A → B should belong to graph one");
+    assertEquals(migrated2?.graph, graph2, "C → D should belong to graph two");
+    console.log(`✓ Migrated ${migratedEdges} edge(s)`);
+
+    // Running the migration again is a no-op
+    const rerun = await dagConcept.migrateEdgeGraphs();
+    assertEquals(rerun.migratedEdges, 0, "Second run should migrate nothing");
+    console.log("✓ Migration is idempotent");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Query: _getAncestors, _getDescendants and _isReachable", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Ancestor, Descendant and Reachability Queries");
+
+    // Setup: A → B → C → D and A → C
+    console.log("\n## 1. Create graph A → B → C → D with shortcut A → C");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Chain",
+    })) as { newGraph: ID };
+
+    const nodeIds: Record<string, ID> = {};
+    for (const title of ["A", "B", "C", "D", "E"]) {
+      const { newNode } = (await dagConcept.addNode({
+        graph: newGraph,
+        nodeTitle: title,
+        enrichment: enrichment1,
+      })) as { newNode: ID };
+      nodeIds[title] = newNode;
+    }
+    for (
+      const [source, target] of [["A", "B"], ["B", "C"], ["C", "D"], ["A", "C"]]
+    ) {
+      await dagConcept.addEdge({
+        graph: newGraph,
+        sourceNode: nodeIds[source],
+        targetNode: nodeIds[target],
+        enrichment: enrichment2,
+      });
+    }
+    console.log("✓ Created graph with 5 nodes and 4 edges");
+
+    // Descendants
+    console.log("\n## 2. Query descendants of A");
+    const descendants = await dagConcept._getDescendants({
+      node: nodeIds["A"],
+    });
+    assertEquals(
+      descendants.map((n) => [n.title, n.depth]),
+      [["B", 1], ["C", 1], ["D", 2]],
+      "Descendants should carry their shortest distance from A",
+    );
+    const nearDescendants = await dagConcept._getDescendants({
+      node: nodeIds["A"],
+      maxDepth: 1,
+    });
+    assertEquals(
+      nearDescendants.map((n) => n.title),
+      ["B", "C"],
+      "maxDepth should limit how far the traversal goes",
+    );
+    console.log("✓ Descendants and depths are correct");
+
+    // Ancestors
+    console.log("\n## 3. Query ancestors of D");
+    const ancestors = await dagConcept._getAncestors({ node: nodeIds["D"] });
+    assertEquals(
+      ancestors.map((n) => [n.title, n.depth]),
+      [["C", 1], ["A", 2], ["B", 2]],
+      "Ancestors should carry their shortest distance to D",
+    );
+    const isolated = await dagConcept._getAncestors({ node: nodeIds["E"] });
+    assertEquals(isolated.length, 0, "E should have no ancestors");
+    console.log("✓ Ancestors and depths are correct");
+
+    // Reachability
+    console.log("\n## 4. Query reachability");
+    const [forward] = await dagConcept._isReachable({
+      source: nodeIds["B"],
+      target: nodeIds["D"],
+    });
+    assertEquals(forward.reachable, true, "D should be reachable from B");
+    const [backward] = await dagConcept._isReachable({
+      source: nodeIds["D"],
+      target: nodeIds["B"],
+    });
+    assertEquals(backward.reachable, false, "B should not be reachable from D");
+    const [unrelated] = await dagConcept._isReachable({
+      source: nodeIds["A"],
+      target: nodeIds["E"],
+    });
+    assertEquals(
+      unrelated.reachable,
+      false,
+      "E should not be reachable from A",
+    );
+    console.log("✓ Reachability is correct");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: exportGraph and importGraph round-trip graphs", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Graph Export and Import");
+
+    // Setup
+    console.log("\n## 1. Create graph Basics → Advanced");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Shared Roadmap",
+    })) as { newGraph: ID };
+    const { newNode: basics } = (await dagConcept.addNode({
+      graph: newGraph,
+      nodeTitle: "Basics",
+      enrichment: enrichment1,
+    })) as { newNode: ID };
+    const { newNode: advanced } = (await dagConcept.addNode({
+      graph: newGraph,
+      nodeTitle: "Advanced",
+      enrichment: enrichment2,
+    })) as { newNode: ID };
+    await dagConcept.addEdge({
+      graph: newGraph,
+      sourceNode: basics,
+      targetNode: advanced,
+      enrichment: enrichment3,
+    });
+    console.log("✓ Created graph with 2 nodes and 1 edge");
+
+    // Export in every format
+    console.log("\n## 2. Export graph as JSON, DOT and Mermaid");
+    const jsonResult = await dagConcept.exportGraph({
+      graph: newGraph,
+      format: "json",
+    });
+    assertEquals("error" in jsonResult, false, "JSON export should succeed");
+    const { document } = jsonResult as { document: string };
+    assertEquals(JSON.parse(document), {
+      title: "Shared Roadmap",
+      nodes: [
+        { title: "Basics", enrichment: enrichment1 },
+        { title: "Advanced", enrichment: enrichment2 },
+      ],
+      edges: [{
+        source: "Basics",
+        target: "Advanced",
+        enrichment: enrichment3,
+      }],
+    });
+
+    const dotResult = await dagConcept.exportGraph({
+      graph: newGraph,
+      format: "dot",
+    }) as { document: string };
+    assertEquals(
+      dotResult.document,
+      'digraph "Shared Roadmap" {\n  "Basics";\n  "Advanced";\n  "Basics" -> "Advanced";\n}',
+    );
+
+    const mermaidResult = await dagConcept.exportGraph({
+      graph: newGraph,
+      format: "mermaid",
+    }) as { document: string };
+    assertEquals(
+      mermaidResult.document,
+      'flowchart TD\n  n0["Basics"]\n  n1["Advanced"]\n  n0 --> n1',
+    );
+    console.log("✓ Exported graph in all formats");
+
+    // Import the JSON document
+    console.log("\n## 3. Import the JSON document for another user");
+    const importResult = await dagConcept.importGraph({
+      owner: userB,
+      graphTitle: "Imported Roadmap",
+      document,
+    });
+    assertEquals("error" in importResult, false, "Import should succeed");
+    const { newGraph: imported } = importResult as { newGraph: ID };
+    const importedNodes = await dagConcept._getTopologicalOrder({
+      graph: imported,
+    });
+    assertEquals(importedNodes.map((n) => n.title), ["Basics", "Advanced"]);
+    const importedEdges = await dagConcept._getGraphEdges({ graph: imported });
+    assertEquals(importedEdges.length, 1, "Imported graph should have 1 edge");
+    assertEquals(importedEdges[0].enrichment, enrichment3);
+    console.log(`✓ Imported graph: \`${imported}\``);
+
+    // Invalid documents
+    console.log("\n## 4. Try to import invalid documents");
+    const duplicateTitle = await dagConcept.importGraph({
+      owner: userB,
+      graphTitle: "Imported Roadmap",
+      document,
+    });
+    assertEquals("error" in duplicateTitle, true, "Graph title must be unique");
+
+    const cyclic = await dagConcept.importGraph({
+      owner: userB,
+      graphTitle: "Cyclic Roadmap",
+      document: {
+        title: "Cyclic",
+        nodes: [
+          { title: "X", enrichment: enrichment1 },
+          { title: "Y", enrichment: enrichment2 },
+        ],
+        edges: [
+          { source: "X", target: "Y", enrichment: enrichment1 },
+          { source: "Y", target: "X", enrichment: enrichment2 },
+        ],
+      },
+    });
+    assertEquals("error" in cyclic, true, "Cyclic document should be rejected");
+    const cyclicGraph = await dagConcept.accessGraph({
+      owner: userB,
+      graphTitle: "Cyclic Roadmap",
+    });
+    assertEquals("error" in cyclicGraph, true, "Nothing should be inserted");
+
+    const malformed = await dagConcept.importGraph({
+      owner: userB,
+      graphTitle: "Malformed Roadmap",
+      document: "not json",
+    });
+    assertEquals("error" in malformed, true, "Malformed JSON is rejected");
+    console.log("✓ Invalid documents rejected without side effects");
+
+    // Failed write
+    console.log("\n## 5. Import while writing the edges fails");
+    const insertEdges = dagConcept.edges.insertMany;
+    dagConcept.edges.insertMany = () =>
+      Promise.reject(new Error("write failed"));
+    let failed = false;
+    try {
+      await dagConcept.importGraph({
+        owner: userB,
+        graphTitle: "Failed Roadmap",
+        document,
+      });
+    } catch {
+      failed = true;
+    } finally {
+      dagConcept.edges.insertMany = insertEdges;
+    }
+    assertEquals(failed, true, "The failed write should surface");
+    const failedGraph = await dagConcept.accessGraph({
+      owner: userB,
+      graphTitle: "Failed Roadmap",
+    });
+    assertEquals("error" in failedGraph, true, "No half graph should remain");
+    console.log("✓ Failed import left nothing behind");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: cloneGraph copies a graph and records the fork", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Graph Cloning");
+
+    // Setup
+    console.log("\n## 1. Create original graph Basics → Advanced");
+    const { newGraph: original } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Original Roadmap",
+    })) as { newGraph: ID };
+    const { newNode: basics } = (await dagConcept.addNode({
+      graph: original,
+      nodeTitle: "Basics",
+      enrichment: enrichment1,
+    })) as { newNode: ID };
+    const { newNode: advanced } = (await dagConcept.addNode({
+      graph: original,
+      nodeTitle: "Advanced",
+      enrichment: enrichment2,
+    })) as { newNode: ID };
+    const { newEdge } = (await dagConcept.addEdge({
+      graph: original,
+      sourceNode: basics,
+      targetNode: advanced,
+      enrichment: enrichment3,
+    })) as { newEdge: ID };
+    console.log("✓ Created original graph");
+
+    // Clone with a remapped enrichment
+    console.log(
+      "\n## 2. Clone graph for another user, remapping one enrichment",
+    );
+    const remapped = "enrichment:copy-of-A" as ID;
+    const cloneResult = await dagConcept.cloneGraph({
+      graph: original,
+      newOwner: userB,
+      newTitle: "My Copy",
+      enrichmentMap: { [enrichment1]: remapped },
+    });
+    assertEquals("error" in cloneResult, false, "Cloning should succeed");
+    const { newGraph: fork } = cloneResult as { newGraph: ID };
+
+    const forkNodes = await dagConcept._getTopologicalOrder({ graph: fork });
+    assertEquals(forkNodes.map((n) => n.title), ["Basics", "Advanced"]);
+    assertEquals(forkNodes[0].enrichment, remapped, "Enrichment is remapped");
+    assertEquals(forkNodes[1].enrichment, enrichment2, "Enrichment is kept");
+    assertEquals(
+      forkNodes.some((n) => n._id === basics || n._id === advanced),
+      false,
+      "Cloned nodes should have fresh IDs",
+    );
+
+    const forkEdges = await dagConcept._getGraphEdges({ graph: fork });
+    assertEquals(forkEdges.length, 1, "Clone should have 1 edge");
+    assertNotEquals(forkEdges[0]._id, newEdge, "Edge should have fresh ID");
+    assertEquals(forkEdges[0].source, forkNodes[0]._id);
+    assertEquals(forkEdges[0].target, forkNodes[1]._id);
+    console.log(`✓ Cloned graph: \`${fork}\``);
+
+    // Fork queries
+    console.log("\n## 3. Query forks of the original graph");
+    const forks = await dagConcept._getForks({ graph: original });
+    assertEquals(forks.length, 1, "Original should have 1 fork");
+    assertEquals(forks[0]._id, fork);
+    assertEquals(forks[0].forkedFrom, original);
+    console.log("✓ Fork recorded");
+
+    // Changes to the clone don't affect the original
+    await dagConcept.removeNode({ node: forkNodes[0]._id });
+    const originalNodes = await dagConcept._getGraphNodes({ graph: original });
+    assertEquals(originalNodes.length, 2, "Original should be untouched");
+
+    // Title uniqueness
+    console.log("\n## 4. Try to clone onto an existing title");
+    const duplicate = await dagConcept.cloneGraph({
+      graph: original,
+      newOwner: userB,
+      newTitle: "My Copy",
+    });
+    assertEquals("error" in duplicate, true, "Duplicate title should fail");
+    console.log("✗ Failed as expected");
+
+    console.log("\n## 5. Clone while writing the edges fails");
+    const insertEdges = dagConcept.edges.insertMany;
+    dagConcept.edges.insertMany = () =>
+      Promise.reject(new Error("write failed"));
+    let failed = false;
+    try {
+      await dagConcept.cloneGraph({
+        graph: original,
+        newOwner: userB,
+        newTitle: "Failed Copy",
+      });
+    } catch {
+      failed = true;
+    } finally {
+      dagConcept.edges.insertMany = insertEdges;
+    }
+    assertEquals(failed, true, "The failed write should surface");
+    const failedGraph = await dagConcept.accessGraph({
+      owner: userB,
+      graphTitle: "Failed Copy",
+    });
+    assertEquals("error" in failedGraph, true, "No half clone should remain");
+    console.log("✓ Failed clone left nothing behind");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: renameGraph and transferGraphOwnership keep titles unique per owner", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Graph Renaming and Ownership Transfer");
+
+    // Setup
+    console.log("\n## 1. Create graphs for Alice and Bob");
+    const { newGraph: aliceGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Draft",
+    })) as { newGraph: ID };
+    await dagConcept.createEmptyGraph({ owner: userA, graphTitle: "Taken" });
+    await dagConcept.createEmptyGraph({ owner: userB, graphTitle: "Final" });
+    console.log("✓ Created 3 graphs");
+
+    // Rename
+    console.log("\n## 2. Rename Alice's graph");
+    const conflictRename = await dagConcept.renameGraph({
+      graph: aliceGraph,
+      newTitle: "Taken",
+    });
+    assertEquals(
+      "error" in conflictRename,
+      true,
+      "Renaming onto an existing title should fail",
+    );
+    console.log(
+      `✗ Failed as expected: ${(conflictRename as { error: string }).error}`,
+    );
+
+    const renameResult = await dagConcept.renameGraph({
+      graph: aliceGraph,
+      newTitle: "Final",
+    });
+    assertEquals("error" in renameResult, false, "Renaming should succeed");
+    const renamed = await dagConcept.accessGraph({
+      owner: userA,
+      graphTitle: "Final",
+    });
+    assertEquals(
+      (renamed as { accessedGraph: ID }).accessedGraph,
+      aliceGraph,
+      "Graph should be accessible by its new title",
+    );
+    console.log("✓ Renamed graph to 'Final'");
+
+    // Transfer
+    console.log("\n## 3. Transfer Alice's graph to Bob");
+    const conflictTransfer = await dagConcept.transferGraphOwnership({
+      graph: aliceGraph,
+      newOwner: userB,
+    });
+    assertEquals(
+      "error" in conflictTransfer,
+      true,
+      "Bob already has a graph titled 'Final'",
+    );
+    console.log(
+      `✗ Failed as expected: ${(conflictTransfer as { error: string }).error}`,
+    );
+
+    await dagConcept.renameGraph({ graph: aliceGraph, newTitle: "Gift" });
+    const transferResult = await dagConcept.transferGraphOwnership({
+      graph: aliceGraph,
+      newOwner: userB,
+    });
+    assertEquals("error" in transferResult, false, "Transfer should succeed");
+
+    const aliceGraphs = await dagConcept._getUserGraphs({ owner: userA });
+    const bobGraphs = await dagConcept._getUserGraphs({ owner: userB });
+    assertEquals(aliceGraphs.map((g) => g.title), ["Taken"]);
+    assertEquals(bobGraphs.map((g) => g.title).sort(), ["Final", "Gift"]);
+    console.log("✓ Transferred graph 'Gift' to Bob");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: applyGraphPatch applies operations all-or-nothing", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Batched Graph Patches");
+
+    // Setup
+    console.log("\n## 1. Create graph with an existing node");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Outline",
+    })) as { newGraph: ID };
+    const { newNode: intro } = (await dagConcept.addNode({
+      graph: newGraph,
+      nodeTitle: "Intro",
+      enrichment: enrichment1,
+    })) as { newNode: ID };
+    console.log("✓ Created graph with node 'Intro'");
+
+    // Valid patch
+    console.log("\n## 2. Apply a patch mixing titles, IDs and temporary IDs");
+    const patchResult = await dagConcept.applyGraphPatch({
+      graph: newGraph,
+      operations: [
+        {
+          op: "addNode",
+          title: "Types",
+          enrichment: enrichment2,
+          tempId: "t1",
+        },
+        { op: "addNode", title: "Generics", enrichment: enrichment3 },
+        { op: "addEdge", source: intro, target: "t1", enrichment: enrichment1 },
+        {
+          op: "addEdge",
+          source: "t1",
+          target: "Generics",
+          enrichment: enrichment2,
+        },
+        { op: "renameNode", node: "Intro", newTitle: "Introduction" },
+      ],
+    });
+    assertEquals("error" in patchResult, false, "Patch should succeed");
+    const { createdNodes, createdEdges } = patchResult as {
+      createdNodes: Record<string, ID>;
+      createdEdges: ID[];
+    };
+    assertExists(createdNodes["t1"], "Node should be keyed by its tempId");
+    assertExists(createdNodes["Generics"], "Node should be keyed by title");
+    assertEquals(createdEdges.length, 2, "Two edges should be created");
+
+    const order = await dagConcept._getTopologicalOrder({ graph: newGraph });
+    assertEquals(order.map((n) => n.title), [
+      "Introduction",
+      "Types",
+      "Generics",
+    ]);
+    console.log("✓ Patch applied");
+
+    // Patch creating a cycle
+    console.log("\n## 3. Try a patch whose final graph has a cycle");
+    const cyclicResult = await dagConcept.applyGraphPatch({
+      graph: newGraph,
+      operations: [
+        { op: "addNode", title: "Extra", enrichment: enrichment1 },
+        {
+          op: "addEdge",
+          source: "Generics",
+          target: "Introduction",
+          enrichment: enrichment1,
+        },
+      ],
+    });
+    assertEquals("error" in cyclicResult, true, "Cyclic patch should fail");
+    const afterCycle = await dagConcept._getGraphNodes({ graph: newGraph });
+    assertEquals(
+      afterCycle.length,
+      3,
+      "No node should be added by failed patch",
+    );
+    console.log(
+      `✗ Failed as expected: ${(cyclicResult as { error: string }).error}`,
+    );
+
+    // Patch with an invalid operation
+    console.log("\n## 4. Try a patch with an invalid operation");
+    const invalidResult = await dagConcept.applyGraphPatch({
+      graph: newGraph,
+      operations: [
+        { op: "removeNode", node: "Generics" },
+        { op: "renameNode", node: "Missing", newTitle: "Anything" },
+      ],
+    });
+    assertEquals("error" in invalidResult, true, "Invalid patch should fail");
+    const afterInvalid = await dagConcept._getGraphNodes({ graph: newGraph });
+    assertEquals(afterInvalid.length, 3, "No node should be removed");
+    console.log(
+      `✗ Failed as expected: ${(invalidResult as { error: string }).error}`,
+    );
+
+    // Operations that aren't a list, e.g. from a malformed request body
+    const notAList = await dagConcept.applyGraphPatch({
+      graph: newGraph,
+      operations: { op: "removeNode", node: "Generics" } as never,
+    });
+    assertEquals("error" in notAList, true, "Operations must be a list");
+    console.log("✗ Correctly rejected operations that aren't a list");
+
+    // Removing a node removes its edges
+    console.log("\n## 5. Remove a node and an edge in one patch");
+    const removeResult = await dagConcept.applyGraphPatch({
+      graph: newGraph,
+      operations: [
+        { op: "removeEdge", source: "Introduction", target: "Types" },
+        { op: "removeNode", node: "Generics" },
+      ],
+    });
+    assertEquals("error" in removeResult, false, "Removal should succeed");
+    const { removedNodes, removedEdges } = removeResult as {
+      removedNodes: ID[];
+      removedEdges: ID[];
+    };
+    assertEquals(removedNodes, [createdNodes["Generics"]]);
+    assertEquals(removedEdges.length, 2, "Both edges should be removed");
+    const remainingEdges = await dagConcept._getGraphEdges({ graph: newGraph });
+    assertEquals(remainingEdges.length, 0, "No edges should remain");
+    console.log("✓ Removed node, its edges, and the requested edge");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: mergeNodes and splitNode rewire edges", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Node Merging and Splitting");
+
+    // Setup: Start → JS, Start → JavaScript, JS → Frameworks, JavaScript → Frameworks, Frameworks → Deploy
+    console.log(
+      "\n## 1. Create graph with duplicate topics 'JS' and 'JavaScript'",
+    );
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Web Roadmap",
+    })) as { newGraph: ID };
+    const nodeIds: Record<string, ID> = {};
+    for (const title of ["Start", "JS", "JavaScript", "Frameworks", "Deploy"]) {
+      const { newNode } = (await dagConcept.addNode({
+        graph: newGraph,
+        nodeTitle: title,
+        enrichment: enrichment1,
+      })) as { newNode: ID };
+      nodeIds[title] = newNode;
+    }
+    const edgePairs = [
+      ["Start", "JS"],
+      ["Start", "JavaScript"],
+      ["JS", "Frameworks"],
+      ["JavaScript", "Frameworks"],
+      ["Frameworks", "Deploy"],
+    ];
+    for (const [source, target] of edgePairs) {
+      await dagConcept.addEdge({
+        graph: newGraph,
+        sourceNode: nodeIds[source],
+        targetNode: nodeIds[target],
+        enrichment: enrichment2,
+      });
+    }
+    console.log("✓ Created graph with 5 nodes and 5 edges");
+
+    // Merge
+    console.log("\n## 2. Merge 'JS' into 'JavaScript'");
+    const mergeResult = await dagConcept.mergeNodes({
+      graph: newGraph,
+      keep: nodeIds["JavaScript"],
+      absorb: nodeIds["JS"],
+    });
+    assertEquals("error" in mergeResult, false, "Merge should succeed");
+    const { removedEdges } = mergeResult as { removedEdges: ID[] };
+    assertEquals(removedEdges.length, 2, "Duplicate edges should be dropped");
+    const order = await dagConcept._getTopologicalOrder({ graph: newGraph });
+    assertEquals(
+      order.map((n) => n.title),
+      ["Start", "JavaScript", "Frameworks", "Deploy"],
+    );
+    const mergedEdges = await dagConcept._getGraphEdges({ graph: newGraph });
+    assertEquals(mergedEdges.length, 3, "3 edges should remain");
+    console.log("✓ Merged nodes without duplicate edges");
+
+    // Merge that would create a cycle
+    console.log("\n## 3. Try to merge 'Deploy' into 'JavaScript'");
+    const cyclicMerge = await dagConcept.mergeNodes({
+      graph: newGraph,
+      keep: nodeIds["JavaScript"],
+      absorb: nodeIds["Deploy"],
+    });
+    assertEquals("error" in cyclicMerge, true, "Merge would create a cycle");
+    const afterCyclic = await dagConcept._getGraphNodes({ graph: newGraph });
+    assertEquals(afterCyclic.length, 4, "Graph should be unchanged");
+    console.log(
+      `✗ Failed as expected: ${(cyclicMerge as { error: string }).error}`,
+    );
+
+    // Split
+    console.log("\n## 4. Split 'Frameworks' into 'React' and 'Vue'");
+    const splitResult = await dagConcept.splitNode({
+      node: nodeIds["Frameworks"],
+      newTitles: ["React", "Vue"],
+    });
+    assertEquals("error" in splitResult, false, "Split should succeed");
+    const { newNodes } = splitResult as { newNodes: ID[] };
+    assertEquals(newNodes.length, 2, "Two nodes should be created");
+    for (const newNode of newNodes) {
+      const incoming = await dagConcept._getNodeIncomingEdges({
+        node: newNode,
+      });
+      const outgoing = await dagConcept._getNodeOutgoingEdges({
+        node: newNode,
+      });
+      assertEquals(incoming.map((e) => e.source), [nodeIds["JavaScript"]]);
+      assertEquals(outgoing.map((e) => e.target), [nodeIds["Deploy"]]);
+    }
+    const splitOrder = await dagConcept._getTopologicalOrder({
+      graph: newGraph,
+    });
+    assertEquals(
+      splitOrder.map((n) => n.title),
+      ["Start", "JavaScript", "React", "Vue", "Deploy"],
+    );
+    console.log("✓ Split node and duplicated its edges");
+
+    // Invalid split
+    console.log("\n## 5. Try to split onto an existing title");
+    const invalidSplit = await dagConcept.splitNode({
+      node: newNodes[0],
+      newTitles: ["Deploy", "Other"],
+    });
+    assertEquals("error" in invalidSplit, true, "Title 'Deploy' is taken");
+    console.log("✗ Failed as expected");
+
+    console.log("\n## 6. Split while writing the new edges fails");
+    const insertEdges = dagConcept.edges.insertMany;
+    dagConcept.edges.insertMany = () =>
+      Promise.reject(new Error("write failed"));
+    let failed = false;
+    try {
+      await dagConcept.splitNode({
+        node: newNodes[0],
+        newTitles: ["Next.js", "Remix"],
+      });
+    } catch {
+      failed = true;
+    } finally {
+      dagConcept.edges.insertMany = insertEdges;
+    }
+    assertEquals(failed, true, "The failed write should surface");
+    const afterFailed = await dagConcept._getTopologicalOrder({
+      graph: newGraph,
+    });
+    assertEquals(
+      afterFailed.map((n) => n.title),
+      ["Start", "JavaScript", "React", "Vue", "Deploy"],
+      "The node should not be lost",
+    );
+    const reactEdges = await dagConcept._getNodeIncomingEdges({
+      node: newNodes[0],
+    });
+    assertEquals(reactEdges.length, 1, "Its edges should remain");
+    console.log("✓ Failed split left the node and its edges");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: reduceTransitively removes redundant edges", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Transitive Reduction");
+
+    // Setup: A → B → C → D plus redundant A → C, A → D and B → D
+    console.log("\n## 1. Create chain A → B → C → D with shortcuts");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Redundant",
+    })) as { newGraph: ID };
+    const nodeIds: Record<string, ID> = {};
+    for (const title of ["A", "B", "C", "D"]) {
+      const { newNode } = (await dagConcept.addNode({
+        graph: newGraph,
+        nodeTitle: title,
+        enrichment: enrichment1,
+      })) as { newNode: ID };
+      nodeIds[title] = newNode;
+    }
+    const edgeIds: Record<string, ID> = {};
+    const pairs = ["AB", "BC", "CD", "AC", "AD", "BD"];
+    for (const pair of pairs) {
+      const { newEdge } = (await dagConcept.addEdge({
+        graph: newGraph,
+        sourceNode: nodeIds[pair[0]],
+        targetNode: nodeIds[pair[1]],
+        enrichment: enrichment2,
+      })) as { newEdge: ID };
+      edgeIds[pair] = newEdge;
+    }
+    console.log("✓ Created graph with 6 edges");
+
+    // Query redundant edges
+    console.log("\n## 2. Query redundant edges");
+    const redundant = await dagConcept._getRedundantEdges({ graph: newGraph });
+    assertEquals(
+      redundant.map((e) => e._id).sort(),
+      [edgeIds["AC"], edgeIds["AD"], edgeIds["BD"]].sort(),
+      "Shortcut edges should be redundant",
+    );
+    console.log(`✓ Found ${redundant.length} redundant edge(s)`);
+
+    // Reduce
+    console.log("\n## 3. Reduce the graph");
+    const reduceResult = await dagConcept.reduceTransitively({
+      graph: newGraph,
+    });
+    assertEquals("error" in reduceResult, false, "Reduction should succeed");
+    const { removedEdges } = reduceResult as { removedEdges: ID[] };
+    assertEquals(removedEdges.length, 3, "3 edges should be removed");
+
+    const remaining = await dagConcept._getGraphEdges({ graph: newGraph });
+    assertEquals(
+      remaining.map((e) => e._id).sort(),
+      [edgeIds["AB"], edgeIds["BC"], edgeIds["CD"]].sort(),
+      "Only the chain should remain",
+    );
+    const [stillReachable] = await dagConcept._isReachable({
+      source: nodeIds["A"],
+      target: nodeIds["D"],
+    });
+    assertEquals(stillReachable.reachable, true, "D stays reachable from A");
+
+    const again = await dagConcept._getRedundantEdges({ graph: newGraph });
+    assertEquals(again.length, 0, "Reduced graph has no redundant edges");
+    console.log("✓ Removed redundant edges, reachability preserved");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Query: _getGraphStats and _getCriticalPath analyze the graph", async () => {
+  const [db, client] = await testDb();
+  const dagConcept = new EnrichedDAGConcept(db);
+
+  try {
+    console.log("\n# Testing Graph Statistics and Critical Path");
+
+    // Setup: HTML → CSS → Layout, HTML → JS → Layout, plus isolated Git
+    console.log("\n## 1. Create graph with two chains and an isolated node");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Frontend",
+    })) as { newGraph: ID };
+    const nodeIds: Record<string, ID> = {};
+    for (const title of ["HTML", "CSS", "JS", "Layout", "Git"]) {
+      const { newNode } = (await dagConcept.addNode({
+        graph: newGraph,
+        nodeTitle: title,
+        enrichment: enrichment1,
+      })) as { newNode: ID };
+      nodeIds[title] = newNode;
+    }
+    const edgePairs = [
+      ["HTML", "CSS"],
+      ["HTML", "JS"],
+      ["CSS", "Layout"],
+      ["JS", "Layout"],
+    ];
+    for (const [source, target] of edgePairs) {
+      await dagConcept.addEdge({
+        graph: newGraph,
+        sourceNode: nodeIds[source],
+        targetNode: nodeIds[target],
+        enrichment: enrichment2,
+      });
+    }
+    console.log("✓ Created graph with 5 nodes and 4 edges");
+
+    // Stats
+    console.log("\n## 2. Query graph statistics");
+    const [stats] = await dagConcept._getGraphStats({ graph: newGraph });
+    assertEquals(stats.nodeCount, 5);
+    assertEquals(stats.edgeCount, 4);
+    assertEquals(stats.roots, [nodeIds["Git"], nodeIds["HTML"]]);
+    assertEquals(stats.leaves, [nodeIds["Git"], nodeIds["Layout"]]);
+    assertEquals(stats.depth, 3, "Longest chain has 3 nodes");
+    assertEquals(stats.layerWidths, [2, 2, 1]);
+    assertEquals(stats.components, 2, "Git is its own component");
+    console.log(`✓ Stats: ${JSON.stringify(stats.layerWidths)} per layer`);
+
+    // Critical path by node count
+    console.log("\n## 3. Query critical path without weights");
+    const [unweighted] = await dagConcept._getCriticalPath({ graph: newGraph });
+    assertEquals(unweighted.totalWeight, 3, "Longest chain has 3 nodes");
+    assertEquals(unweighted.path.length, 3);
+
+    // Critical path by study hours
+    console.log("\n## 4. Query critical path weighted by hours");
+    const hours: Record<string, number> = {
+      HTML: 4,
+      CSS: 6,
+      JS: 20,
+      Layout: 5,
+      Git: 2,
+    };
+    for (const [title, weight] of Object.entries(hours)) {
+      const result = await dagConcept.setNodeWeight({
+        node: nodeIds[title],
+        weightField: "hours",
+        weight,
+      });
+      assertEquals("error" in result, false, "Setting weight should succeed");
+    }
+    const [weighted] = await dagConcept._getCriticalPath({
+      graph: newGraph,
+      weightField: "hours",
+    });
+    assertEquals(weighted.path, [
+      nodeIds["HTML"],
+      nodeIds["JS"],
+      nodeIds["Layout"],
+    ]);
+    assertEquals(weighted.totalWeight, 29, "4 + 20 + 5 hours");
+    console.log(`✓ Critical path takes ${weighted.totalWeight} hours`);
+
+    const invalidWeight = await dagConcept.setNodeWeight({
+      node: nodeIds["Git"],
+      weightField: "hours",
+      weight: -1,
+    });
+    assertEquals("error" in invalidWeight, true, "Negative weight is rejected");
+    for (const weightField of ["", "study.hours", "$hours", "1hours"]) {
+      const invalidField = await dagConcept.setNodeWeight({
+        node: nodeIds["Git"],
+        weightField,
+        weight: 1,
+      });
+      assertEquals(
+        "error" in invalidField,
+        true,
+        `Weight field "${weightField}" is rejected`,
+      );
+    }
+    const notANumber = await dagConcept.setNodeWeight({
+      node: nodeIds["Git"],
+      weightField: "hours",
+      weight: Infinity,
+    });
+    assertEquals("error" in notANumber, true, "Infinite weight is rejected");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: suggestEdge validates structured AI answers and retries", async () => {
+  const [db, client] = await testDb();
+  const llm = new StubLLM({
+    script: [
+      JSON.stringify({
+        source: "Development",
+        target: "Planning",
+        reasonable: true,
+        rationale: "Development informs planning",
+      }),
+      JSON.stringify({
+        source: "Development",
+        target: "Testing",
+        reasonable: true,
+        rationale: "Code must exist before it can be tested",
+      }),
+      "not json",
+      "not json",
+      "not json",
+    ],
+  });
+  const dagConcept = new EnrichedDAGConcept(db, llm);
+
+  try {
+    console.log("\n# Testing Structured Edge Suggestions");
+
+    // Setup
+    console.log("\n## 1. Create graph Planning → Development, Testing");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Project Workflow",
+    })) as { newGraph: ID };
+    const nodeIds: Record<string, ID> = {};
+    for (const title of ["Planning", "Development", "Testing"]) {
+      const { newNode } = (await dagConcept.addNode({
+        graph: newGraph,
+        nodeTitle: title,
+        enrichment: enrichment1,
+      })) as { newNode: ID };
+      nodeIds[title] = newNode;
+    }
+    await dagConcept.addEdge({
+      graph: newGraph,
+      sourceNode: nodeIds["Planning"],
+      targetNode: nodeIds["Development"],
+      enrichment: enrichment2,
+    });
+    console.log("✓ Created graph with 3 nodes and 1 edge");
+
+    // First answer creates a cycle, second one is valid
+    console.log("\n## 2. Get suggestion after a corrective retry");
+    const suggestResult = await dagConcept.suggestEdge({ graph: newGraph });
+    assertEquals("error" in suggestResult, false, "Suggestion should succeed");
+    const suggestion = suggestResult as {
+      suggestedSourceNode: ID;
+      suggestedTargetNode: ID;
+      reasonable: boolean;
+      rationale: string;
+    };
+    assertEquals(suggestion.suggestedSourceNode, nodeIds["Development"]);
+    assertEquals(suggestion.suggestedTargetNode, nodeIds["Testing"]);
+    assertEquals(suggestion.reasonable, true);
+    assertEquals(
+      suggestion.rationale,
+      "Code must exist before it can be tested",
+    );
+    assertEquals(llm.prompts.length, 2, "The AI should be asked twice");
+    assertEquals(
+      llm.prompts[1].includes("this edge would create a cycle"),
+      true,
+      "Retry prompt should explain what was wrong",
+    );
+    console.log(`✓ Suggested edge with rationale: "${suggestion.rationale}"`);
+
+    // Only invalid answers fall back to a valid random edge
+    console.log("\n## 3. Fall back after repeated invalid answers");
+    const fallbackResult = await dagConcept.suggestEdge({ graph: newGraph });
+    const fallback = fallbackResult as {
+      suggestedSourceNode: ID;
+      suggestedTargetNode: ID;
+      reasonable: boolean;
+    };
+    assertEquals(fallback.reasonable, false, "Fallback isn't reasonable");
+    assertEquals(llm.prompts.length, 5, "The AI should be asked 3 more times");
+    const addResult = await dagConcept.addEdge({
+      graph: newGraph,
+      sourceNode: fallback.suggestedSourceNode,
+      targetNode: fallback.suggestedTargetNode,
+      enrichment: enrichment3,
+    });
+    assertEquals("error" in addResult, false, "Fallback edge should be valid");
+    console.log("✓ Fallback suggestion can be added to the graph");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: suggestNodeTitles and suggestEdges return ranked, de-duplicated suggestions", async () => {
+  const [db, client] = await testDb();
+  const llm = new StubLLM({
+    script: [
+      JSON.stringify([
+        { title: "Testing", confidence: 0.9 },
+        { title: "Deployment", confidence: 0.4 },
+        { title: "Code Review", confidence: 0.8 },
+        { title: "code review", confidence: 0.7 },
+        { title: "Monitoring", confidence: 0.6 },
+      ]),
+      JSON.stringify([
+        {
+          source: "Development",
+          target: "Planning",
+          confidence: 1,
+          rationale: "cycle",
+        },
+        {
+          source: "Planning",
+          target: "Development",
+          confidence: 1,
+          rationale: "exists",
+        },
+        {
+          source: "Development",
+          target: "Testing",
+          confidence: 0.7,
+          rationale: "Test the code",
+        },
+        {
+          source: "Planning",
+          target: "Testing",
+          confidence: 0.9,
+          rationale: "Plan the tests",
+        },
+        {
+          source: "Testing",
+          target: "Development",
+          confidence: 0.6,
+          rationale: "reverses an earlier suggestion",
+        },
+        {
+          source: "Testing",
+          target: "Planning",
+          confidence: 0.5,
+          rationale: "reverses an earlier suggestion",
+        },
+      ]),
+    ],
+  });
+  const dagConcept = new EnrichedDAGConcept(db, llm);
+
+  try {
+    console.log("\n# Testing Ranked Suggestions");
+
+    // Setup
+    console.log("\n## 1. Create graph Planning → Development, Testing");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Project Workflow",
+    })) as { newGraph: ID };
+    const nodeIds: Record<string, ID> = {};
+    for (const title of ["Planning", "Development", "Testing"]) {
+      const { newNode } = (await dagConcept.addNode({
+        graph: newGraph,
+        nodeTitle: title,
+        enrichment: enrichment1,
+      })) as { newNode: ID };
+      nodeIds[title] = newNode;
+    }
+    await dagConcept.addEdge({
+      graph: newGraph,
+      sourceNode: nodeIds["Planning"],
+      targetNode: nodeIds["Development"],
+      enrichment: enrichment2,
+    });
+    console.log("✓ Created graph with 3 nodes and 1 edge");
+
+    // Node titles
+    console.log("\n## 2. Suggest 3 node titles");
+    const titlesResult = await dagConcept.suggestNodeTitles({
+      graph: newGraph,
+      count: 3,
+    });
+    assertEquals("error" in titlesResult, false, "Suggestion should succeed");
+    const { suggestions: titles } = titlesResult as {
+      suggestions: { title: string; confidence: number }[];
+    };
+    assertEquals(titles, [
+      { title: "Code Review", confidence: 0.8 },
+      { title: "Monitoring", confidence: 0.6 },
+      { title: "Deployment", confidence: 0.4 },
+    ]);
+    console.log(`✓ Suggested: ${titles.map((t) => t.title).join(", ")}`);
+
+    // Edges
+    console.log("\n## 3. Suggest 5 edges");
+    const edgesResult = await dagConcept.suggestEdges({
+      graph: newGraph,
+      count: 5,
+    });
+    assertEquals("error" in edgesResult, false, "Suggestion should succeed");
+    const { suggestions: edges } = edgesResult as {
+      suggestions: { source: ID; target: ID; confidence: number }[];
+    };
+    assertEquals(
+      edges.map((e) => [e.source, e.target, e.confidence]),
+      [
+        [nodeIds["Planning"], nodeIds["Testing"], 0.9],
+        [nodeIds["Development"], nodeIds["Testing"], 0.7],
+      ],
+      "Invalid, duplicate and mutually cyclic edges should be dropped",
+    );
+    console.log(`✓ Suggested ${edges.length} valid edge(s)`);
+
+    // Invalid count
+    const invalidCount = await dagConcept.suggestEdges({
+      graph: newGraph,
+      count: 0,
+    });
+    assertEquals("error" in invalidCount, true, "Count must be positive");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: generateGraphFromTopic creates an acyclic graph from the AI's structure", async () => {
+  const [db, client] = await testDb();
+  const llm = new StubLLM({
+    script: [
+      "not json",
+      JSON.stringify({
+        nodes: [
+          "Variables",
+          "Loops",
+          "Functions",
+          "Recursion",
+          "Variables",
+          "Closures",
+        ],
+        edges: [
+          { source: "Variables", target: "Loops" },
+          { source: "Loops", target: "Functions" },
+          { source: "Functions", target: "Recursion" },
+          { source: "Recursion", target: "Variables" },
+          { source: "Variables", target: "Loops" },
+          { source: "Functions", target: "Closures" },
+        ],
+      }),
+      JSON.stringify({ nodes: ["", "  "], edges: [] }),
+    ],
+  });
+  const dagConcept = new EnrichedDAGConcept(db, llm);
+
+  try {
+    console.log("\n# Testing Graph Generation From a Topic");
+
+    console.log("\n## 1. Generate without an AI model");
+    const noLlm = await new EnrichedDAGConcept(db).generateGraphFromTopic({
+      owner: userA,
+      graphTitle: "Programming",
+      topic: "Programming basics",
+      maxNodes: 4,
+    });
+    assertEquals("error" in noLlm, true, "Generation requires an AI model");
+    console.log("✓ Correctly rejected generation without AI");
+
+    console.log("\n## 2. Generate with at most 4 nodes");
+    const result = await dagConcept.generateGraphFromTopic({
+      owner: userA,
+      graphTitle: "Programming",
+      topic: "Programming basics",
+      maxNodes: 4,
+    });
+    assertEquals("error" in result, false, "Generation should succeed");
+    const { newGraph, newNodes, newEdges } = result as {
+      newGraph: ID;
+      newNodes: ID[];
+      newEdges: ID[];
+    };
+    assertEquals(llm.prompts.length, 2, "Invalid JSON should be retried");
+    assertEquals(newNodes.length, 4, "Duplicates and extra nodes are dropped");
+    assertEquals(
+      newEdges.length,
+      3,
+      "Cycle, duplicate and unknown edges are dropped",
+    );
+
+    const order = await dagConcept._getTopologicalOrder({ graph: newGraph });
+    assertEquals(
+      order.map((n) => n.title),
+      ["Variables", "Loops", "Functions", "Recursion"],
+    );
+    console.log(`✓ Generated: ${order.map((n) => n.title).join(" → ")}`);
+
+    console.log("\n## 3. Generate with a taken title");
+    const duplicate = await dagConcept.generateGraphFromTopic({
+      owner: userA,
+      graphTitle: "Programming",
+      topic: "Programming basics",
+      maxNodes: 4,
+    });
+    assertEquals("error" in duplicate, true, "Title must be unique per owner");
+    console.log("✓ Correctly rejected duplicate graph title");
+
+    console.log("\n## 4. Generate from an answer without usable nodes");
+    const empty = await dagConcept.generateGraphFromTopic({
+      owner: userA,
+      graphTitle: "Nothing",
+      topic: "Nothing at all",
+      maxNodes: 4,
+    });
+    assertEquals("error" in empty, true, "Blank titles give no graph");
+    const graphs = await dagConcept._getUserGraphs({ owner: userA });
+    assertEquals(graphs.length, 1, "Nothing should be written");
+    console.log("✓ Correctly rejected an answer without usable nodes");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: suggestNeighborNode suggests a node next to an anchor", async () => {
+  const [db, client] = await testDb();
+  const llm = new StubLLM({ script: ["Loops", '"Arrays"'] });
+  // Retries go through the cache, like in the app
+  const dagConcept = new EnrichedDAGConcept(db, new ManagedLLM(db, llm));
+
+  try {
+    console.log("\n# Testing Neighbor Node Suggestions");
+
+    // Setup
+    console.log("\n## 1. Create graph Variables → Loops → Recursion");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Programming",
+    })) as { newGraph: ID };
+    const nodeIds: Record<string, ID> = {};
+    for (const title of ["Variables", "Loops", "Recursion"]) {
+      const { newNode } = (await dagConcept.addNode({
+        graph: newGraph,
+        nodeTitle: title,
+        enrichment: enrichment1,
+      })) as { newNode: ID };
+      nodeIds[title] = newNode;
+    }
+    for (
+      const [source, target] of [["Variables", "Loops"], ["Loops", "Recursion"]]
+    ) {
+      await dagConcept.addEdge({
+        graph: newGraph,
+        sourceNode: nodeIds[source],
+        targetNode: nodeIds[target],
+        enrichment: enrichment2,
+      });
+    }
+    console.log("✓ Created graph with 3 nodes and 2 edges");
+
+    // Prerequisite suggestion with context
+    console.log("\n## 2. Suggest a prerequisite for Loops");
+    const result = await dagConcept.suggestNeighborNode({
+      graph: newGraph,
+      anchorNode: nodeIds["Loops"],
+      direction: "prerequisite",
+    });
+    assertEquals(result, {
+      suggestedNodeTitle: "Arrays",
+      proposedEdge: { source: "Arrays", target: "Loops" },
+    }, "Existing titles should be retried");
+    assertEquals(llm.prompts.length, 2, "The retry should reach the model");
+    assertEquals(llm.prompts[0].includes("Variables (1 step(s) away)"), true);
+    assertEquals(llm.prompts[0].includes("Recursion (1 step(s) away)"), true);
+    console.log("✓ Suggested Arrays → Loops using ancestors and descendants");
+
+    // Follow-up without an AI model
+    console.log("\n## 3. Suggest a follow-up without an AI model");
+    const fallback = await new EnrichedDAGConcept(db).suggestNeighborNode({
+      graph: newGraph,
+      anchorNode: nodeIds["Recursion"],
+      direction: "followup",
+    });
+    assertEquals(fallback, {
+      suggestedNodeTitle: "Follow-up to Recursion",
+      proposedEdge: { source: "Recursion", target: "Follow-up to Recursion" },
+    });
+    console.log("✓ Fallback suggestion points away from the anchor");
+
+    // Anchor outside the graph
+    const { newGraph: otherGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Other",
+    })) as { newGraph: ID };
+    const wrongGraph = await dagConcept.suggestNeighborNode({
+      graph: otherGraph,
+      anchorNode: nodeIds["Loops"],
+      direction: "followup",
+    });
+    assertEquals("error" in wrongGraph, true, "Anchor must be in the graph");
+    console.log("✓ Correctly rejected anchor from another graph");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: generateGraphFromTopic streams the AI's answer to onToken", async () => {
+  const [db, client] = await testDb();
+  const answer = JSON.stringify(
+    {
+      nodes: ["Variables", "Loops"],
+      edges: [{ source: "Variables", target: "Loops" }],
+    },
+    null,
+    1,
+  );
+  const dagConcept = new EnrichedDAGConcept(
+    db,
+    new StubLLM({ script: [answer] }),
+  );
+
+  try {
+    console.log("\n# Testing Streamed Graph Generation");
+
+    console.log("\n## 1. Generate while collecting tokens");
+    const tokens: string[] = [];
+    const result = await dagConcept.generateGraphFromTopic({
+      owner: userA,
+      graphTitle: "Programming",
+      topic: "Programming basics",
+      maxNodes: 5,
+      onToken: (chunk) => tokens.push(chunk),
+    });
+    assertEquals("error" in result, false, "Generation should succeed");
+    assertEquals(tokens.length > 1, true, "Answer should arrive in chunks");
+    assertEquals(tokens.join(""), answer, "Chunks should add up to answer");
+    console.log(`✓ Received ${tokens.length} chunks`);
+
+    const { newNodes, newEdges } = result as {
+      newNodes: ID[];
+      newEdges: ID[];
+    };
+    assertEquals(newNodes.length, 2);
+    assertEquals(newEdges.length, 1);
+    console.log("✓ Graph created from the streamed answer");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: AI actions record the prompt template they use", async () => {
+  const [db, client] = await testDb();
+  const entries: AuditEntry[] = [];
+  const llm = new AuditedLLM(
+    new StubLLM({
+      script: [
+        "Testing",
+        "not json",
+        JSON.stringify({
+          source: "Planning",
+          target: "Testing",
+          reasonable: true,
+          rationale: "Plans come first",
+        }),
+      ],
+    }),
+    {
+      recordCall: (entry) => Promise.resolve(entries.push(entry)),
+    },
+  );
+  const dagConcept = new EnrichedDAGConcept(db, llm);
+
+  try {
+    console.log("\n# Testing Prompt Templates");
+
+    console.log("\n## 1. Suggest a node title");
+    const { newGraph } = (await dagConcept.createEmptyGraph({
+      owner: userA,
+      graphTitle: "Project Workflow",
+    })) as { newGraph: ID };
+    await dagConcept.addNode({
+      graph: newGraph,
+      nodeTitle: "Planning",
+      enrichment: enrichment1,
+    });
+    const result = await dagConcept.suggestNodeTitle({ graph: newGraph });
+    assertEquals(result, { suggestedNodeTitle: "Testing" });
+
+    assertEquals(entries.length, 1);
+    assertEquals(entries[0].promptTemplate, "EnrichedDAG/suggestNodeTitle@v1");
+    assertEquals(entries[0].action, "suggestNodeTitle");
+    assertEquals(
+      entries[0].prompt.includes(
+        'a directed acyclic graph titled "Project Workflow"',
+      ),
+      true,
+      "Variables should be filled in",
+    );
+    assertEquals(entries[0].prompt.includes("{{"), false);
+    console.log(`✓ Recorded template ${entries[0].promptTemplate}`);
+
+    console.log("\n## 2. Suggest an edge after an invalid answer");
+    await dagConcept.addNode({
+      graph: newGraph,
+      nodeTitle: "Testing",
+      enrichment: enrichment2,
+    });
+    const edge = await dagConcept.suggestEdge({ graph: newGraph });
+    assertEquals("error" in edge, false);
+    assertEquals(
+      entries.slice(1).map((entry) => entry.promptTemplate),
+      [
+        "EnrichedDAG/suggestEdge@v1",
+        "EnrichedDAG/suggestEdgeRetry@v1[EnrichedDAG/suggestEdge@v1]",
+      ],
+      "The retry should keep the template of the first attempt",
+    );
+    console.log(`✓ Recorded template ${entries[2].promptTemplate}`);
+  } finally {
+    await client.close();
+  }
+});
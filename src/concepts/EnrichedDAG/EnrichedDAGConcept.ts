@@ -1,11 +1,89 @@
-import { Collection, Db } from "npm:mongodb";
+import { ClientSession, Collection, Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
-import type { GeminiLLM } from "@utils/gemini-llm.ts";
+import { clientOf, freshID } from "@utils/database.ts";
+import { ResponseSchema, SchemaType } from "@google/generative-ai";
+import {
+  type FallbackMarker,
+  fallbackMarker,
+  type LLMProvider,
+} from "@utils/llm.ts";
+import { renderPrompt } from "@utils/prompts.ts";
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "EnrichedDAG" + ".";
 
+// Number of times an AI suggestion is requested before falling back
+const MAX_SUGGESTION_ATTEMPTS = 3;
+
+// Structured answer expected from the AI when suggesting an edge
+const EDGE_SUGGESTION_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    source: { type: SchemaType.STRING },
+    target: { type: SchemaType.STRING },
+    reasonable: { type: SchemaType.BOOLEAN },
+    rationale: { type: SchemaType.STRING },
+  },
+  required: ["source", "target", "reasonable", "rationale"],
+};
+
+// Structured answer expected from the AI when suggesting several node titles
+const NODE_TITLES_SCHEMA: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      title: { type: SchemaType.STRING },
+      confidence: { type: SchemaType.NUMBER },
+    },
+    required: ["title", "confidence"],
+  },
+};
+
+// Structured answer expected from the AI when suggesting several edges
+const EDGES_SCHEMA: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      source: { type: SchemaType.STRING },
+      target: { type: SchemaType.STRING },
+      confidence: { type: SchemaType.NUMBER },
+      rationale: { type: SchemaType.STRING },
+    },
+    required: ["source", "target", "confidence", "rationale"],
+  },
+};
+
+// Upper bound on the number of suggestions returned at once
+const MAX_SUGGESTIONS = 20;
+
+// Structured answer expected from the AI when generating a graph from a topic
+const TOPIC_GRAPH_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    nodes: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    edges: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          source: { type: SchemaType.STRING },
+          target: { type: SchemaType.STRING },
+        },
+        required: ["source", "target"],
+      },
+    },
+  },
+  required: ["nodes", "edges"],
+};
+
+// Upper bound on the number of nodes in a generated graph
+const MAX_GENERATED_NODES = 50;
+
+// Weight fields become part of a document path, so they may not contain "." or start with "$"
+const WEIGHT_FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 // Generic types for the concept's external dependencies
 type Object = ID;
 type User = ID;
@@ -16,32 +94,325 @@ type Node = ID;
 type Edge = ID;
 
 /**
- * State: A set of Graphs with owner User and title String.
+ * State: A set of Graphs with owner User, title String, and an optional forkedFrom Graph.
  */
 interface GraphDoc {
   _id: Graph;
   owner: User;
   title: string;
+  forkedFrom?: Graph;
 }
 
 /**
- * State: A set of Nodes with parent Graph, title String, and enrichment Object.
+ * State: A set of Nodes with parent Graph, title String, optional enrichment Object, and optional named numeric weights.
  */
 interface NodeDoc {
   _id: Node;
   parent: Graph;
   title: string;
-  enrichment: Object;
+  // Nodes generated by AI have no enrichment
+  enrichment?: Object;
+  weights?: Record<string, number>;
 }
 
 /**
- * State: A set of Edges with source Node, target Node, and enrichment Object.
+ * State: A set of Edges with parent Graph, source Node, target Node, and optional enrichment Object.
  */
 interface EdgeDoc {
   _id: Edge;
+  graph: Graph;
   source: Node;
   target: Node;
-  enrichment: Object;
+  // Edges generated by AI have no enrichment
+  enrichment?: Object;
+}
+
+/**
+ * Canonical JSON representation of a graph, used by exportGraph and importGraph.
+ * Edges reference nodes by title, since titles are unique within a graph.
+ */
+interface GraphDocument {
+  title: string;
+  nodes: { title: string; enrichment?: Object }[];
+  edges: { source: string; target: string; enrichment?: Object }[];
+}
+
+/**
+ * Formats a graph can be exported to.
+ */
+type ExportFormat = "json" | "dot" | "mermaid";
+
+/**
+ * A single change applied by applyGraphPatch. Nodes are referenced by the
+ * tempId of a node added earlier in the same patch, by Node ID, or by title.
+ */
+type GraphOperation =
+  | { op: "addNode"; title: string; enrichment: Object; tempId?: string }
+  | { op: "removeNode"; node: string }
+  | { op: "renameNode"; node: string; newTitle: string }
+  | { op: "addEdge"; source: string; target: string; enrichment: Object }
+  | { op: "removeEdge"; source: string; target: string };
+
+/**
+ * Keeps the edges that can be added to the existing edges one after another, in order,
+ * without closing a cycle.
+ */
+function withoutCycles<T extends { source: Node; target: Node }>(
+  existing: EdgeDoc[],
+  added: T[],
+): T[] {
+  const successors = new Map<Node, Node[]>();
+  const link = (source: Node, target: Node) => {
+    if (!successors.has(source)) {
+      successors.set(source, []);
+    }
+    successors.get(source)!.push(target);
+  };
+  const reaches = (from: Node, to: Node): boolean => {
+    const stack = [from];
+    const visited = new Set<Node>();
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === to) {
+        return true;
+      }
+      if (visited.has(current)) {
+        continue;
+      }
+      visited.add(current);
+      stack.push(...(successors.get(current) ?? []));
+    }
+    return false;
+  };
+
+  for (const edge of existing) {
+    link(edge.source, edge.target);
+  }
+  const kept: T[] = [];
+  for (const edge of added) {
+    if (reaches(edge.target, edge.source)) {
+      continue;
+    }
+    link(edge.source, edge.target);
+    kept.push(edge);
+  }
+  return kept;
+}
+
+/**
+ * Orders nodes so that every edge points from an earlier node to a later one.
+ * Uses Kahn's algorithm; among nodes that are ready at the same time, the one
+ * with the smaller title comes first, so the order is deterministic.
+ */
+function topologicalSort(nodes: NodeDoc[], edges: EdgeDoc[]): NodeDoc[] {
+  const byId = new Map<Node, NodeDoc>();
+  const inDegree = new Map<Node, number>();
+  const outgoing = new Map<Node, Node[]>();
+  for (const node of nodes) {
+    byId.set(node._id, node);
+    inDegree.set(node._id, 0);
+    outgoing.set(node._id, []);
+  }
+  for (const edge of edges) {
+    if (!byId.has(edge.source) || !byId.has(edge.target)) {
+      continue;
+    }
+    outgoing.get(edge.source)!.push(edge.target);
+    inDegree.set(edge.target, inDegree.get(edge.target)! + 1);
+  }
+
+  const byTitle = (a: NodeDoc, b: NodeDoc) =>
+    a.title < b.title ? -1 : a.title > b.title ? 1 : 0;
+  const ready = nodes.filter((n) => inDegree.get(n._id) === 0).sort(byTitle);
+  const order: NodeDoc[] = [];
+
+  while (ready.length > 0) {
+    const current = ready.shift()!;
+    order.push(current);
+    for (const next of outgoing.get(current._id)!) {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) {
+        ready.push(byId.get(next)!);
+        ready.sort(byTitle);
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Computes the set of descendants of every node, in reverse topological order.
+ */
+function computeDescendants(
+  nodes: NodeDoc[],
+  edges: EdgeDoc[],
+): Map<Node, Set<Node>> {
+  const successors = new Map<Node, Node[]>();
+  for (const edge of edges) {
+    if (!successors.has(edge.source)) {
+      successors.set(edge.source, []);
+    }
+    successors.get(edge.source)!.push(edge.target);
+  }
+
+  const descendants = new Map<Node, Set<Node>>();
+  for (const node of topologicalSort(nodes, edges).reverse()) {
+    const reachable = new Set<Node>();
+    for (const next of successors.get(node._id) || []) {
+      reachable.add(next);
+      for (const further of descendants.get(next) || []) {
+        reachable.add(further);
+      }
+    }
+    descendants.set(node._id, reachable);
+  }
+
+  return descendants;
+}
+
+/**
+ * Finds edges implied by other paths, e.g. A → C when A → B → C exists.
+ * An edge u → v is redundant if v is a descendant of another successor of u.
+ */
+function findRedundantEdges(nodes: NodeDoc[], edges: EdgeDoc[]): EdgeDoc[] {
+  const descendants = computeDescendants(nodes, edges);
+  const successors = new Map<Node, Node[]>();
+  for (const edge of edges) {
+    if (!successors.has(edge.source)) {
+      successors.set(edge.source, []);
+    }
+    successors.get(edge.source)!.push(edge.target);
+  }
+
+  return edges.filter((edge) =>
+    (successors.get(edge.source) || []).some((other) =>
+      other !== edge.target &&
+      (descendants.get(other)?.has(edge.target) ?? false)
+    )
+  );
+}
+
+/**
+ * Lists every edge that could be added to a graph without creating a
+ * duplicate or a cycle, as [source, target] pairs.
+ */
+function candidateEdges(
+  nodes: NodeDoc[],
+  edges: EdgeDoc[],
+): [NodeDoc, NodeDoc][] {
+  const descendants = computeDescendants(nodes, edges);
+  const existing = new Set(edges.map((e) => `${e.source}|${e.target}`));
+  const candidates: [NodeDoc, NodeDoc][] = [];
+  for (const source of nodes) {
+    for (const target of nodes) {
+      if (
+        source._id !== target._id &&
+        !existing.has(`${source._id}|${target._id}`) &&
+        !descendants.get(target._id)?.has(source._id)
+      ) {
+        candidates.push([source, target]);
+      }
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Describes the nodes and edges of a graph for an AI prompt.
+ */
+function describeGraph(nodes: NodeDoc[], edges: EdgeDoc[]): string {
+  const nodeList = nodes.map((n, i) => `${i + 1}. ${n.title}`).join("\n");
+  const titleOf = new Map(nodes.map((n) => [n._id, n.title]));
+  const edgeDescriptions = edges.map((edge) =>
+    `${titleOf.get(edge.source)} → ${titleOf.get(edge.target)}`
+  );
+
+  return `Nodes in the graph:
+${nodeList}
+
+Current edges:
+${edgeDescriptions.join("\n") || "none"}`;
+}
+
+/**
+ * Picks up to count random elements of a list, without repetition.
+ */
+function sample<T>(items: T[], count: number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, count);
+}
+
+/**
+ * Explains why an edge between two titles can't be added to a graph.
+ */
+function describeInvalidEdge(
+  nodes: NodeDoc[],
+  edges: EdgeDoc[],
+  sourceTitle: unknown,
+  targetTitle: unknown,
+): string {
+  const source = nodes.find((n) => n.title === sourceTitle);
+  const target = nodes.find((n) => n.title === targetTitle);
+  if (!source || !target) {
+    return "the source and target must be exact titles of existing nodes";
+  }
+  if (source._id === target._id) {
+    return "an edge can't connect a node to itself";
+  }
+  if (edges.some((e) => e.source === source._id && e.target === target._id)) {
+    return "this edge already exists";
+  }
+  return "this edge would create a cycle";
+}
+
+/**
+ * Checks that an untrusted value is a well-formed GraphDocument.
+ */
+function parseGraphDocument(
+  document: unknown,
+): { parsed: GraphDocument } | { error: string } {
+  let value = document;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return { error: "Document is not valid JSON" };
+    }
+  }
+
+  const candidate = value as Partial<GraphDocument> | null;
+  if (
+    typeof candidate !== "object" || candidate === null ||
+    !Array.isArray(candidate.nodes) || !Array.isArray(candidate.edges)
+  ) {
+    return { error: "Document must contain nodes and edges arrays" };
+  }
+  for (const node of candidate.nodes) {
+    if (typeof node?.title !== "string" || node.title === "") {
+      return { error: "Every node must have a non-empty title" };
+    }
+  }
+  for (const edge of candidate.edges) {
+    if (
+      typeof edge?.source !== "string" || typeof edge?.target !== "string"
+    ) {
+      return { error: "Every edge must have source and target titles" };
+    }
+  }
+
+  return {
+    parsed: {
+      title: typeof candidate.title === "string" ? candidate.title : "",
+      nodes: candidate.nodes,
+      edges: candidate.edges,
+    },
+  };
 }
 
 /**
@@ -53,9 +424,11 @@ export default class EnrichedDAGConcept {
   nodes: Collection<NodeDoc>;
   edges: Collection<EdgeDoc>;
 
+  private edgeIndexReady?: Promise<void>;
+
   constructor(
     private readonly db: Db,
-    private readonly llm?: GeminiLLM,
+    private readonly llm?: LLMProvider,
   ) {
     this.graphs = this.db.collection(PREFIX + "graphs");
     this.nodes = this.db.collection(PREFIX + "nodes");
@@ -102,6 +475,68 @@ export default class EnrichedDAGConcept {
     return { accessedGraph: graph._id };
   }
 
+  /**
+   * Action: Renames a graph.
+   * @requires Graph is in the set of Graphs. There are no other Graphs with the same owner User and newTitle String.
+   * @effects Sets the title of graph to newTitle.
+   */
+  async renameGraph(
+    { graph, newTitle }: { graph: Graph; newTitle: string },
+  ): Promise<Empty | { error: string }> {
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
+
+    const duplicate = await this.graphs.findOne({
+      owner: existingGraph.owner,
+      title: newTitle,
+      _id: { $ne: graph },
+    });
+    if (duplicate) {
+      return {
+        error: `The owner already has a graph titled "${newTitle}"`,
+      };
+    }
+
+    await this.graphs.updateOne({ _id: graph }, { $set: { title: newTitle } });
+
+    return {};
+  }
+
+  /**
+   * Action: Transfers a graph to another user.
+   * @requires Graph is in the set of Graphs. There are no Graphs with newOwner as owner User and the title of graph as title String.
+   * @effects Sets the owner of graph to newOwner.
+   */
+  async transferGraphOwnership(
+    { graph, newOwner }: { graph: Graph; newOwner: User },
+  ): Promise<Empty | { error: string }> {
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
+
+    if (existingGraph.owner === newOwner) {
+      return {};
+    }
+
+    const duplicate = await this.graphs.findOne({
+      owner: newOwner,
+      title: existingGraph.title,
+    });
+    if (duplicate) {
+      return {
+        error:
+          `The new owner already has a graph titled "${existingGraph.title}"`,
+      };
+    }
+
+    await this.graphs.updateOne({ _id: graph }, { $set: { owner: newOwner } });
+
+    return {};
+  }
+
   /**
    * Action: Adds a node to a graph.
    * @requires Graph is in the set of Graphs. There are no Nodes with the same parent Graph and title String.
@@ -197,11 +632,83 @@ export default class EnrichedDAGConcept {
     return {};
   }
 
+  /**
+   * Action: Sets a numeric weight of a node, such as its estimated study hours.
+   * @requires Node is in the set of Nodes. WeightField is a name made of letters, digits and underscores that doesn't start with a digit. Weight is a non-negative finite number.
+   * @effects Sets the weight of node named weightField to weight.
+   */
+  async setNodeWeight(
+    { node, weightField, weight }: {
+      node: Node;
+      weightField: string;
+      weight: number;
+    },
+  ): Promise<Empty | { error: string }> {
+    if (
+      typeof weightField !== "string" || !WEIGHT_FIELD_PATTERN.test(weightField)
+    ) {
+      return {
+        error:
+          "Weight field must be made of letters, digits and underscores, and not start with a digit",
+      };
+    }
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+      return { error: "Weight must be a non-negative number" };
+    }
+
+    const result = await this.nodes.updateOne({ _id: node }, {
+      $set: { [`weights.${weightField}`]: weight },
+    });
+    if (result.matchedCount === 0) {
+      return { error: "Node not found" };
+    }
+
+    return {};
+  }
+
+  /**
+   * Helper: Creates the index on the parent Graph of edges on first use. If creation fails, edges
+   * are still read without it and creation is retried on the next read.
+   */
+  private async ensureEdgeIndex(): Promise<void> {
+    this.edgeIndexReady ??= this.edges.createIndex({ graph: 1 }).then(
+      () => {},
+      (error) => {
+        this.edgeIndexReady = undefined;
+        console.error("Could not create the index on edge graphs:", error);
+      },
+    );
+    await this.edgeIndexReady;
+  }
+
+  /**
+   * Helper: Runs writes in a single transaction, so that they apply all together or not at all.
+   */
+  private async inTransaction(
+    write: (session: ClientSession) => Promise<void>,
+  ): Promise<void> {
+    const session = clientOf(this.db).startSession();
+    try {
+      await session.withTransaction(() => write(session));
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Helper: Loads all edges of a graph.
+   */
+  private async findGraphEdges(graph: Graph): Promise<EdgeDoc[]> {
+    await this.ensureEdgeIndex();
+    return await this.edges.find({ graph }).toArray();
+  }
+
   /**
    * Helper: Checks if adding an edge would create a cycle in the graph.
-   * Uses DFS to detect cycles.
+   * Uses DFS over the edges of that graph only.
    */
   private async wouldCreateCycle(
+    graph: Graph,
     sourceNode: Node,
     targetNode: Node,
   ): Promise<boolean> {
@@ -210,15 +717,15 @@ export default class EnrichedDAGConcept {
       return true;
     }
 
-    // Get all edges to form adjacency list
-    const allEdges = await this.edges.find({}).toArray();
-    const graph = new Map<Node, Node[]>();
+    // Get the edges of this graph to form adjacency list
+    const graphEdges = await this.findGraphEdges(graph);
+    const adjacency = new Map<Node, Node[]>();
 
-    for (const edge of allEdges) {
-      if (!graph.has(edge.source)) {
-        graph.set(edge.source, []);
+    for (const edge of graphEdges) {
+      if (!adjacency.has(edge.source)) {
+        adjacency.set(edge.source, []);
       }
-      graph.get(edge.source)!.push(edge.target);
+      adjacency.get(edge.source)!.push(edge.target);
     }
 
     // DFS to detect if target can reach source (would create cycle)
@@ -237,7 +744,7 @@ export default class EnrichedDAGConcept {
       }
 
       visited.add(current);
-      const neighbors = graph.get(current) || [];
+      const neighbors = adjacency.get(current) || [];
       for (const neighbor of neighbors) {
         if (!visited.has(neighbor)) {
           stack.push(neighbor);
@@ -248,6 +755,69 @@ export default class EnrichedDAGConcept {
     return false; // No cycle
   }
 
+  /**
+   * Helper: Loads all nodes of a graph together with the edges between them.
+   */
+  private async loadGraph(
+    graph: Graph,
+  ): Promise<{ nodes: NodeDoc[]; edges: EdgeDoc[] }> {
+    const nodes = await this.nodes.find({ parent: graph }).toArray();
+    const edges = await this.findGraphEdges(graph);
+    return { nodes, edges };
+  }
+
+  /**
+   * Helper: Collects the nodes reachable from node by following edges forwards
+   * (descendants) or backwards (ancestors), each with its distance from node.
+   * Uses BFS, so the depth is the length of the shortest path.
+   */
+  private async collectReachable(
+    node: Node,
+    direction: "forward" | "backward",
+    maxDepth?: number,
+  ): Promise<(NodeDoc & { depth: number })[]> {
+    const start = await this.nodes.findOne({ _id: node });
+    if (!start) {
+      return [];
+    }
+
+    const { nodes, edges } = await this.loadGraph(start.parent);
+    const neighbors = new Map<Node, Node[]>();
+    for (const edge of edges) {
+      const [from, to] = direction === "forward"
+        ? [edge.source, edge.target]
+        : [edge.target, edge.source];
+      if (!neighbors.has(from)) {
+        neighbors.set(from, []);
+      }
+      neighbors.get(from)!.push(to);
+    }
+
+    const depths = new Map<Node, number>([[node, 0]]);
+    const queue = [node];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const depth = depths.get(current)!;
+      if (maxDepth !== undefined && depth >= maxDepth) {
+        continue;
+      }
+      for (const next of neighbors.get(current) || []) {
+        if (!depths.has(next)) {
+          depths.set(next, depth + 1);
+          queue.push(next);
+        }
+      }
+    }
+
+    return nodes
+      .filter((n) => n._id !== node && depths.has(n._id))
+      .map((n) => ({ ...n, depth: depths.get(n._id)! }))
+      .sort((a, b) =>
+        a.depth - b.depth ||
+        (a.title < b.title ? -1 : a.title > b.title ? 1 : 0)
+      );
+  }
+
   /**
    * Action: Adds an edge between two nodes.
    * @requires Graph is in the set of Graphs, sourceNode and targetNode are in the set of Nodes, both belong to graph. There are no Edges with sourceNode and targetNode. Adding the edge shouldn't create cycles.
@@ -289,7 +859,11 @@ export default class EnrichedDAGConcept {
     }
 
     // Check for cycles
-    const wouldCycle = await this.wouldCreateCycle(sourceNode, targetNode);
+    const wouldCycle = await this.wouldCreateCycle(
+      graph,
+      sourceNode,
+      targetNode,
+    );
     if (wouldCycle) {
       return { error: "Adding this edge would create a cycle in the graph" };
     }
@@ -297,6 +871,7 @@ export default class EnrichedDAGConcept {
     const edgeId = freshID();
     await this.edges.insertOne({
       _id: edgeId as Edge,
+      graph,
       source: sourceNode,
       target: targetNode,
       enrichment,
@@ -324,6 +899,7 @@ export default class EnrichedDAGConcept {
     }
 
     const edge = await this.edges.findOne({
+      graph,
       source: sourceNode,
       target: targetNode,
     });
@@ -360,6 +936,153 @@ export default class EnrichedDAGConcept {
     return {};
   }
 
+  /**
+   * Action: Merges one node into another.
+   * @requires Graph is in the set of Graphs, keep and absorb are distinct Nodes that both have graph as parent Graph. Moving the edges of absorb onto keep doesn't create cycles.
+   * @effects Moves all edges of absorb onto keep, removing edges that would duplicate an existing edge or connect keep to itself. Removes absorb from the set of Nodes. Returns the removed Edges.
+   */
+  async mergeNodes(
+    { graph, keep, absorb }: { graph: Graph; keep: Node; absorb: Node },
+  ): Promise<{ removedEdges: Edge[] } | { error: string }> {
+    const keepDoc = await this.nodes.findOne({ _id: keep });
+    const absorbDoc = await this.nodes.findOne({ _id: absorb });
+    if (!keepDoc || !absorbDoc) {
+      return { error: "One or both nodes not found" };
+    }
+    if (keepDoc.parent !== graph || absorbDoc.parent !== graph) {
+      return { error: "Nodes must belong to the same graph" };
+    }
+    if (keep === absorb) {
+      return { error: "A node can't be merged into itself" };
+    }
+
+    const { nodes, edges } = await this.loadGraph(graph);
+
+    // Rewire edges of absorb onto keep, dropping self-loops and duplicates
+    const kept = new Map<string, EdgeDoc>();
+    const rewired: EdgeDoc[] = [];
+    const removedEdges: Edge[] = [];
+    const key = (source: Node, target: Node) =>
+      JSON.stringify([source, target]);
+    for (const edge of edges) {
+      if (edge.source !== absorb && edge.target !== absorb) {
+        kept.set(key(edge.source, edge.target), edge);
+      }
+    }
+    for (const edge of edges) {
+      if (edge.source !== absorb && edge.target !== absorb) {
+        continue;
+      }
+      const source = edge.source === absorb ? keep : edge.source;
+      const target = edge.target === absorb ? keep : edge.target;
+      if (source === target || kept.has(key(source, target))) {
+        removedEdges.push(edge._id);
+        continue;
+      }
+      const moved = { ...edge, source, target };
+      kept.set(key(source, target), moved);
+      rewired.push(moved);
+    }
+
+    const remainingNodes = nodes.filter((n) => n._id !== absorb);
+    const remainingEdges = [...kept.values()];
+    if (
+      topologicalSort(remainingNodes, remainingEdges).length <
+        remainingNodes.length
+    ) {
+      return { error: "Merging these nodes would create a cycle in the graph" };
+    }
+
+    const write = async (session: ClientSession) => {
+      for (const edge of rewired) {
+        await this.edges.updateOne({ _id: edge._id }, {
+          $set: { source: edge.source, target: edge.target },
+        }, { session });
+      }
+      if (removedEdges.length > 0) {
+        await this.edges.deleteMany({ _id: { $in: removedEdges } }, {
+          session,
+        });
+      }
+      await this.nodes.deleteOne({ _id: absorb }, { session });
+    };
+
+    await this.inTransaction(write);
+
+    return { removedEdges };
+  }
+
+  /**
+   * Action: Splits a node into several nodes.
+   * @requires Node is in the set of Nodes. There are at least two newTitles, they are distinct, and no other Node in the parent Graph of node has one of them as title.
+   * @effects Adds a new Node with the enrichment of node for every title in newTitles, and copies every edge of node onto each of them. Removes node and its edges. Returns the new Nodes and the removed Edges.
+   */
+  async splitNode(
+    { node, newTitles }: { node: Node; newTitles: string[] },
+  ): Promise<{ newNodes: Node[]; removedEdges: Edge[] } | { error: string }> {
+    const nodeDoc = await this.nodes.findOne({ _id: node });
+    if (!nodeDoc) {
+      return { error: "Node not found" };
+    }
+    if (newTitles.length < 2) {
+      return { error: "A node must be split into at least two nodes" };
+    }
+    if (new Set(newTitles).size !== newTitles.length) {
+      return { error: "New titles must be distinct" };
+    }
+
+    const conflicting = await this.nodes.findOne({
+      parent: nodeDoc.parent,
+      title: { $in: newTitles },
+      _id: { $ne: node },
+    });
+    if (conflicting) {
+      return {
+        error:
+          `A node titled "${conflicting.title}" already exists in this graph`,
+      };
+    }
+
+    const nodeEdges = await this.edges.find({
+      $or: [{ source: node }, { target: node }],
+    }).toArray();
+
+    const newNodeDocs: NodeDoc[] = newTitles.map((title) => ({
+      _id: freshID() as Node,
+      parent: nodeDoc.parent,
+      title,
+      enrichment: nodeDoc.enrichment,
+    }));
+    const newEdgeDocs: EdgeDoc[] = newNodeDocs.flatMap((newNode) =>
+      nodeEdges.map((edge) => ({
+        _id: freshID() as Edge,
+        graph: edge.graph,
+        source: edge.source === node ? newNode._id : edge.source,
+        target: edge.target === node ? newNode._id : edge.target,
+        enrichment: edge.enrichment,
+      }))
+    );
+
+    // Each new node takes exactly the place of the old one, so no cycles can appear
+    const write = async (session: ClientSession) => {
+      await this.edges.deleteMany({
+        $or: [{ source: node }, { target: node }],
+      }, { session });
+      await this.nodes.deleteOne({ _id: node }, { session });
+      await this.nodes.insertMany(newNodeDocs, { session });
+      if (newEdgeDocs.length > 0) {
+        await this.edges.insertMany(newEdgeDocs, { session });
+      }
+    };
+
+    await this.inTransaction(write);
+
+    return {
+      newNodes: newNodeDocs.map((n) => n._id),
+      removedEdges: nodeEdges.map((e) => e._id),
+    };
+  }
+
   /**
    * Action: Removes an edge.
    * @requires Edge is in the set of Edges.
@@ -413,68 +1136,640 @@ export default class EnrichedDAGConcept {
   }
 
   /**
-   * Action: Suggests a node title using AI.
-   * @async
-   * @requires Graph is in the set of Graphs.
-   * @effects Returns a suggestion for the title of a new node using AI based on the graph's title, titles of nodes, and edges in the graph.
+   * Action: Exports a graph to a shareable document.
+   * @requires Graph is in the set of Graphs. Format is one of "json", "dot", or "mermaid".
+   * @effects Returns a document describing the graph's title, nodes, edges, and their enrichment Objects in the provided format.
    */
-  async suggestNodeTitle(
-    { graph }: { graph: Graph },
-  ): Promise<{ suggestedNodeTitle: string } | { error: string }> {
+  async exportGraph(
+    { graph, format }: { graph: Graph; format: ExportFormat },
+  ): Promise<{ document: string } | { error: string }> {
     const existingGraph = await this.graphs.findOne({ _id: graph });
     if (!existingGraph) {
       return { error: "Graph not found" };
     }
 
-    const nodesInGraph = await this.nodes.find({ parent: graph }).toArray();
-    const nodeIds = nodesInGraph.map((n) => n._id);
+    const { nodes, edges } = await this.loadGraph(graph);
+    const ordered = topologicalSort(nodes, edges);
+    const position = new Map(ordered.map((n, i) => [n._id, i]));
+    const sortedEdges = [...edges].sort((a, b) =>
+      position.get(a.source)! - position.get(b.source)! ||
+      position.get(a.target)! - position.get(b.target)!
+    );
+    const titleOf = new Map(nodes.map((n) => [n._id, n.title]));
+
+    switch (format) {
+      case "json": {
+        const exported: GraphDocument = {
+          title: existingGraph.title,
+          nodes: ordered.map((n) => ({
+            title: n.title,
+            enrichment: n.enrichment,
+          })),
+          edges: sortedEdges.map((e) => ({
+            source: titleOf.get(e.source)!,
+            target: titleOf.get(e.target)!,
+            enrichment: e.enrichment,
+          })),
+        };
+        return { document: JSON.stringify(exported, null, 2) };
+      }
+      case "dot": {
+        const quote = (text: string) =>
+          `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+        const lines = [`digraph ${quote(existingGraph.title)} {`];
+        for (const node of ordered) {
+          lines.push(`  ${quote(node.title)};`);
+        }
+        for (const edge of sortedEdges) {
+          lines.push(
+            `  ${quote(titleOf.get(edge.source)!)} -> ${
+              quote(titleOf.get(edge.target)!)
+            };`,
+          );
+        }
+        lines.push("}");
+        return { document: lines.join("\n") };
+      }
+      case "mermaid": {
+        // Mermaid node IDs can't contain arbitrary text, so titles become labels
+        const label = (text: string) => `"${text.replace(/"/g, "#quot;")}"`;
+        const lines = ["flowchart TD"];
+        for (const node of ordered) {
+          lines.push(`  n${position.get(node._id)}[${label(node.title)}]`);
+        }
+        for (const edge of sortedEdges) {
+          lines.push(
+            `  n${position.get(edge.source)} --> n${position.get(edge.target)}`,
+          );
+        }
+        return { document: lines.join("\n") };
+      }
+      default:
+        return { error: `Unsupported export format: ${format}` };
+    }
+  }
 
-    // Get edges where both source and target are in this graph
-    const edgesInGraph = await this.edges.find({
-      source: { $in: nodeIds },
-      target: { $in: nodeIds },
-    }).toArray();
+  /**
+   * Action: Imports a graph from a JSON document produced by exportGraph.
+   * @requires There are no Graphs with the same owner User and graphTitle String. Node titles in the document are unique, every edge connects nodes of the document, there are no duplicate edges, and the edges don't form cycles.
+   * @effects Adds a new Graph with provided owner and graphTitle, together with all nodes and edges of the document. Nothing is added if any requirement fails. Returns the new Graph.
+   */
+  async importGraph(
+    { owner, graphTitle, document }: {
+      owner: User;
+      graphTitle: string;
+      document: string | GraphDocument;
+    },
+  ): Promise<{ newGraph: Graph } | { error: string }> {
+    const parseResult = parseGraphDocument(document);
+    if ("error" in parseResult) {
+      return parseResult;
+    }
+    const { parsed } = parseResult;
 
-    if (!this.llm) {
-      // Fallback to simple suggestion
-      const count = nodesInGraph.length;
-      return { suggestedNodeTitle: `Node ${count + 1}` };
+    const existing = await this.graphs.findOne({ owner, title: graphTitle });
+    if (existing) {
+      return { error: "A graph with this title already exists for this user" };
     }
 
-    // Build prompt for AI
-    const nodeTitles = nodesInGraph.map((n) => n.title).join(", ");
-    const edgeCount = edgesInGraph.length;
+    // Build all documents in memory first, so nothing is inserted unless the whole document is valid
+    const graphId = freshID() as Graph;
+    const nodeDocs: NodeDoc[] = [];
+    const nodeByTitle = new Map<string, NodeDoc>();
+    for (const node of parsed.nodes) {
+      if (nodeByTitle.has(node.title)) {
+        return { error: `Duplicate node title in document: ${node.title}` };
+      }
+      const nodeDoc: NodeDoc = {
+        _id: freshID() as Node,
+        parent: graphId,
+        title: node.title,
+        enrichment: node.enrichment,
+      };
+      nodeDocs.push(nodeDoc);
+      nodeByTitle.set(node.title, nodeDoc);
+    }
+
+    const edgeDocs: EdgeDoc[] = [];
+    const edgeKeys = new Set<string>();
+    for (const edge of parsed.edges) {
+      const sourceDoc = nodeByTitle.get(edge.source);
+      const targetDoc = nodeByTitle.get(edge.target);
+      if (!sourceDoc || !targetDoc) {
+        return {
+          error:
+            `Edge references unknown node: ${edge.source} → ${edge.target}`,
+        };
+      }
+      const key = JSON.stringify([edge.source, edge.target]);
+      if (edgeKeys.has(key)) {
+        return {
+          error: `Duplicate edge in document: ${edge.source} → ${edge.target}`,
+        };
+      }
+      edgeKeys.add(key);
+      edgeDocs.push({
+        _id: freshID() as Edge,
+        graph: graphId,
+        source: sourceDoc._id,
+        target: targetDoc._id,
+        enrichment: edge.enrichment,
+      });
+    }
+
+    // Nodes on a cycle never become ready in a topological sort
+    if (topologicalSort(nodeDocs, edgeDocs).length < nodeDocs.length) {
+      return { error: "The edges in this document form a cycle" };
+    }
+
+    await this.inTransaction(async (session) => {
+      await this.graphs.insertOne({ _id: graphId, owner, title: graphTitle }, {
+        session,
+      });
+      if (nodeDocs.length > 0) {
+        await this.nodes.insertMany(nodeDocs, { session });
+      }
+      if (edgeDocs.length > 0) {
+        await this.edges.insertMany(edgeDocs, { session });
+      }
+    });
+
+    return { newGraph: graphId };
+  }
+
+  /**
+   * Action: Clones a graph into a new graph.
+   * @requires Graph is in the set of Graphs. There are no Graphs with newOwner as owner User and newTitle as title String.
+   * @effects Adds a new Graph with newOwner, newTitle, and graph as forkedFrom. Copies all nodes and edges of graph into the new Graph with fresh identities. Enrichment Objects listed in enrichmentMap are replaced by their mapped Objects, all others are kept. Returns the new Graph.
+   */
+  async cloneGraph(
+    { graph, newOwner, newTitle, enrichmentMap }: {
+      graph: Graph;
+      newOwner: User;
+      newTitle: string;
+      enrichmentMap?: Record<string, Object>;
+    },
+  ): Promise<{ newGraph: Graph } | { error: string }> {
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
+
+    const duplicate = await this.graphs.findOne({
+      owner: newOwner,
+      title: newTitle,
+    });
+    if (duplicate) {
+      return { error: "A graph with this title already exists for this user" };
+    }
+
+    const remap = (enrichment?: Object) =>
+      enrichment === undefined
+        ? undefined
+        : enrichmentMap?.[enrichment] ?? enrichment;
+
+    const { nodes, edges } = await this.loadGraph(graph);
+    const graphId = freshID() as Graph;
+    const nodeIds = new Map<Node, Node>();
+    const nodeDocs: NodeDoc[] = nodes.map((n) => {
+      const nodeId = freshID() as Node;
+      nodeIds.set(n._id, nodeId);
+      return {
+        _id: nodeId,
+        parent: graphId,
+        title: n.title,
+        enrichment: remap(n.enrichment),
+      };
+    });
+    const edgeDocs: EdgeDoc[] = edges.map((e) => ({
+      _id: freshID() as Edge,
+      graph: graphId,
+      source: nodeIds.get(e.source)!,
+      target: nodeIds.get(e.target)!,
+      enrichment: remap(e.enrichment),
+    }));
+
+    await this.inTransaction(async (session) => {
+      await this.graphs.insertOne({
+        _id: graphId,
+        owner: newOwner,
+        title: newTitle,
+        forkedFrom: graph,
+      }, { session });
+      if (nodeDocs.length > 0) {
+        await this.nodes.insertMany(nodeDocs, { session });
+      }
+      if (edgeDocs.length > 0) {
+        await this.edges.insertMany(edgeDocs, { session });
+      }
+    });
+
+    return { newGraph: graphId };
+  }
+
+  /**
+   * Action: Applies a batch of node and edge operations to a graph.
+   * @requires Graph is in the set of Graphs. Every operation is valid when the operations are applied in order: referenced nodes and edges exist, node titles stay unique, and there are no duplicate edges or edges between nodes of different graphs. The resulting graph has no cycles.
+   * @effects Applies all operations to graph, or none of them if any requirement fails. Removing a node also removes its edges. Returns the created Nodes keyed by their tempId (or title), the created Edges, and the removed Nodes and Edges.
+   */
+  async applyGraphPatch(
+    { graph, operations }: { graph: Graph; operations: GraphOperation[] },
+  ): Promise<
+    | {
+      createdNodes: Record<string, Node>;
+      createdEdges: Edge[];
+      removedNodes: Node[];
+      removedEdges: Edge[];
+    }
+    | { error: string }
+  > {
+    if (!Array.isArray(operations)) {
+      return { error: "Operations must be a list" };
+    }
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
+
+    // Apply the operations to an in-memory copy of the graph first
+    const loaded = await this.loadGraph(graph);
+    const nodes = new Map(loaded.nodes.map((n) => [n._id, { ...n }]));
+    const edges = new Map(loaded.edges.map((e) => [e._id, e]));
+    const tempIds = new Map<string, Node>();
+    const createdNodes: Record<string, Node> = {};
+
+    const resolve = (ref: string): NodeDoc | undefined => {
+      const byTempId = tempIds.get(ref);
+      if (byTempId) {
+        return nodes.get(byTempId);
+      }
+      return nodes.get(ref as Node) ??
+        [...nodes.values()].find((n) => n.title === ref);
+    };
+    const findEdge = (source: Node, target: Node) =>
+      [...edges.values()].find((e) =>
+        e.source === source && e.target === target
+      );
+    const titleTaken = (title: string) =>
+      [...nodes.values()].some((n) => n.title === title);
+
+    for (const [i, operation] of operations.entries()) {
+      const fail = (message: string) => ({
+        error: `Operation ${i + 1} (${operation.op}): ${message}`,
+      });
+
+      switch (operation.op) {
+        case "addNode": {
+          if (titleTaken(operation.title)) {
+            return fail("A node with this title already exists in this graph");
+          }
+          if (operation.tempId !== undefined && tempIds.has(operation.tempId)) {
+            return fail("Temporary ID is already used in this patch");
+          }
+          const nodeId = freshID() as Node;
+          nodes.set(nodeId, {
+            _id: nodeId,
+            parent: graph,
+            title: operation.title,
+            enrichment: operation.enrichment,
+          });
+          if (operation.tempId !== undefined) {
+            tempIds.set(operation.tempId, nodeId);
+          }
+          createdNodes[operation.tempId ?? operation.title] = nodeId;
+          break;
+        }
+        case "removeNode": {
+          const node = resolve(operation.node);
+          if (!node) {
+            return fail(`Node not found: ${operation.node}`);
+          }
+          nodes.delete(node._id);
+          for (const edge of [...edges.values()]) {
+            if (edge.source === node._id || edge.target === node._id) {
+              edges.delete(edge._id);
+            }
+          }
+          break;
+        }
+        case "renameNode": {
+          const node = resolve(operation.node);
+          if (!node) {
+            return fail(`Node not found: ${operation.node}`);
+          }
+          if (titleTaken(operation.newTitle)) {
+            return fail("A node with this title already exists in this graph");
+          }
+          node.title = operation.newTitle;
+          break;
+        }
+        case "addEdge": {
+          const source = resolve(operation.source);
+          const target = resolve(operation.target);
+          if (!source || !target) {
+            return fail("One or both nodes not found");
+          }
+          if (source._id === target._id) {
+            return fail("An edge can't connect a node to itself");
+          }
+          if (findEdge(source._id, target._id)) {
+            return fail("Edge already exists between these nodes");
+          }
+          const edgeId = freshID() as Edge;
+          edges.set(edgeId, {
+            _id: edgeId,
+            graph,
+            source: source._id,
+            target: target._id,
+            enrichment: operation.enrichment,
+          });
+          break;
+        }
+        case "removeEdge": {
+          const source = resolve(operation.source);
+          const target = resolve(operation.target);
+          const edge = source && target && findEdge(source._id, target._id);
+          if (!edge) {
+            return fail("No edge found between these nodes");
+          }
+          edges.delete(edge._id);
+          break;
+        }
+        default:
+          return { error: `Operation ${i + 1}: unknown operation` };
+      }
+    }
+
+    const finalNodes = [...nodes.values()];
+    const finalEdges = [...edges.values()];
+    if (topologicalSort(finalNodes, finalEdges).length < nodes.size) {
+      return { error: "Applying this patch would create a cycle in the graph" };
+    }
+
+    // Work out the difference between the stored graph and the patched one
+    const original = new Map(loaded.nodes.map((n) => [n._id, n]));
+    const originalEdges = new Set(loaded.edges.map((e) => e._id));
+    const insertedNodes = finalNodes.filter((n) => !original.has(n._id));
+    const renamedNodes = finalNodes.filter((n) =>
+      original.has(n._id) && original.get(n._id)!.title !== n.title
+    );
+    const insertedEdges = finalEdges.filter((e) => !originalEdges.has(e._id));
+    const removedNodes = loaded.nodes
+      .filter((n) => !nodes.has(n._id))
+      .map((n) => n._id);
+    const removedEdges = loaded.edges
+      .filter((e) => !edges.has(e._id))
+      .map((e) => e._id);
+
+    const write = async (session: ClientSession) => {
+      if (removedEdges.length > 0) {
+        await this.edges.deleteMany({ _id: { $in: removedEdges } }, {
+          session,
+        });
+      }
+      if (removedNodes.length > 0) {
+        await this.nodes.deleteMany({ _id: { $in: removedNodes } }, {
+          session,
+        });
+      }
+      for (const node of renamedNodes) {
+        await this.nodes.updateOne({ _id: node._id }, {
+          $set: { title: node.title },
+        }, { session });
+      }
+      if (insertedNodes.length > 0) {
+        await this.nodes.insertMany(insertedNodes, { session });
+      }
+      if (insertedEdges.length > 0) {
+        await this.edges.insertMany(insertedEdges, { session });
+      }
+    };
+
+    await this.inTransaction(write);
+
+    // Nodes added and removed within the same patch were never created
+    for (const [key, node] of Object.entries(createdNodes)) {
+      if (!nodes.has(node)) {
+        delete createdNodes[key];
+      }
+    }
 
-    const prompt =
-      `You are helping create a node in a directed acyclic graph titled "${existingGraph.title}".
+    return {
+      createdNodes,
+      createdEdges: insertedEdges.map((e) => e._id),
+      removedNodes,
+      removedEdges,
+    };
+  }
+
+  /**
+   * Action: Removes redundant edges from a graph.
+   * @requires Graph is in the set of Graphs.
+   * @effects Removes every edge whose target can also be reached from its source through other edges, so that the reachability between nodes stays the same. Returns the removed Edges.
+   */
+  async reduceTransitively(
+    { graph }: { graph: Graph },
+  ): Promise<{ removedEdges: Edge[] } | { error: string }> {
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
+
+    const { nodes, edges } = await this.loadGraph(graph);
+    const removedEdges = findRedundantEdges(nodes, edges).map((e) => e._id);
+    if (removedEdges.length > 0) {
+      await this.edges.deleteMany({ _id: { $in: removedEdges } });
+    }
+
+    return { removedEdges };
+  }
+
+  /**
+   * Action: Migrates edges created before edges recorded their parent graph.
+   * @requires true
+   * @effects Sets the parent Graph of every Edge that has none to the parent Graph of its source Node. Ensures edges are indexed by their parent Graph. Returns the number of migrated edges.
+   */
+  async migrateEdgeGraphs(): Promise<{ migratedEdges: number }> {
+    const unmigrated = await this.edges.find({ graph: { $exists: false } })
+      .toArray();
+
+    let migratedEdges = 0;
+    for (const edge of unmigrated) {
+      const sourceDoc = await this.nodes.findOne({ _id: edge.source });
+      if (!sourceDoc) {
+        continue;
+      }
+      await this.edges.updateOne({ _id: edge._id }, {
+        $set: { graph: sourceDoc.parent },
+      });
+      migratedEdges++;
+    }
+
+    await this.edges.createIndex({ graph: 1 });
+
+    return { migratedEdges };
+  }
 
-Existing nodes in this graph: ${nodeTitles || "none"}
+  /**
+   * Action: Suggests a node title using AI.
+   * @async
+   * @requires Graph is in the set of Graphs.
+   * @effects Returns a suggestion for the title of a new node using AI based on the graph's title, titles of nodes, and edges in the graph. If the call to the AI fails, the fallback is marked with an error and a fallback flag.
+   */
+  async suggestNodeTitle(
+    { graph }: { graph: Graph },
+  ): Promise<
+    | { suggestedNodeTitle: string }
+    | { suggestedNodeTitle: string } & FallbackMarker
+    | { error: string }
+  > {
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
 
-Number of edges: ${edgeCount}
+    const nodesInGraph = await this.nodes.find({ parent: graph }).toArray();
+    const edgesInGraph = await this.findGraphEdges(graph);
 
-Suggest a new, descriptive node title that:
-1. Fits well with the existing nodes
-2. Follows similar naming patterns
-3. Is concise and meaningful
+    if (!this.llm) {
+      // Fallback to simple suggestion
+      const count = nodesInGraph.length;
+      return { suggestedNodeTitle: `Node ${count + 1}` };
+    }
 
-Respond with ONLY the suggested title, nothing else. Do not include quotation marks.`;
+    // Build prompt for AI
+    const prompt = renderPrompt("EnrichedDAG/suggestNodeTitle", {
+      graphTitle: existingGraph.title,
+      nodeTitles: nodesInGraph.map((n) => n.title).join(", ") || "none",
+      edgeCount: edgesInGraph.length,
+    });
 
     try {
-      const suggestion = await this.llm.executeLLM(prompt);
+      const suggestion = await this.llm.executeLLM(prompt.text, {
+        user: existingGraph.owner,
+        concept: "EnrichedDAG",
+        action: "suggestNodeTitle",
+        promptTemplate: prompt.templateId,
+        cache: false,
+      });
       const suggestedNodeTitle = suggestion.trim().replace(/['"]/g, "");
       return { suggestedNodeTitle };
     } catch (error) {
       console.error("LLM error:", error);
       const count = nodesInGraph.length;
-      return { suggestedNodeTitle: `Node ${count + 1}` };
+      return {
+        suggestedNodeTitle: `Node ${count + 1}`,
+        ...fallbackMarker(error),
+      };
     }
   }
 
+  /**
+   * Action: Suggests a new node next to an anchor node using AI.
+   * @async
+   * @requires Graph is in the set of Graphs. anchorNode is in graph. direction is "prerequisite" or "followup".
+   * @effects Returns a suggestion for the title of a new node using AI based on the anchor node's ancestors and descendants, and the proposed edge between the new node and the anchor node by title. A prerequisite becomes the source of the edge, a follow-up becomes its target. The suggested title differs from the titles of existing nodes in the graph. If the call to the AI fails, the fallback is marked with an error and a fallback flag.
+   */
+  async suggestNeighborNode(
+    { graph, anchorNode, direction }: {
+      graph: Graph;
+      anchorNode: Node;
+      direction: "prerequisite" | "followup";
+    },
+  ): Promise<
+    | {
+      suggestedNodeTitle: string;
+      proposedEdge: { source: string; target: string };
+    }
+    | {
+      suggestedNodeTitle: string;
+      proposedEdge: { source: string; target: string };
+    } & FallbackMarker
+    | { error: string }
+  > {
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
+    const anchor = await this.nodes.findOne({ _id: anchorNode, parent: graph });
+    if (!anchor) {
+      return { error: "Anchor node not found in graph" };
+    }
+    if (direction !== "prerequisite" && direction !== "followup") {
+      return { error: 'Direction must be "prerequisite" or "followup"' };
+    }
+
+    const nodesInGraph = await this.nodes.find({ parent: graph }).toArray();
+    const takenTitles = new Set(nodesInGraph.map((n) => n.title.toLowerCase()));
+
+    const withEdge = (suggestedNodeTitle: string) => ({
+      suggestedNodeTitle,
+      proposedEdge: direction === "prerequisite"
+        ? { source: suggestedNodeTitle, target: anchor.title }
+        : { source: anchor.title, target: suggestedNodeTitle },
+    });
+
+    const fallback = () => {
+      const base = direction === "prerequisite"
+        ? `Prerequisite for ${anchor.title}`
+        : `Follow-up to ${anchor.title}`;
+      let title = base;
+      for (let i = 2; takenTitles.has(title.toLowerCase()); i++) {
+        title = `${base} ${i}`;
+      }
+      return withEdge(title);
+    };
+
+    if (!this.llm) {
+      return fallback();
+    }
+
+    // Build prompt for AI from the neighbourhood of the anchor node
+    const ancestors = await this.collectReachable(anchorNode, "backward");
+    const descendants = await this.collectReachable(anchorNode, "forward");
+    const describe = (reachable: (NodeDoc & { depth: number })[]) =>
+      reachable.map((n) => `- ${n.title} (${n.depth} step(s) away)`).join(
+        "\n",
+      ) || "none";
+    const prompt = renderPrompt("EnrichedDAG/suggestNeighborNode", {
+      graphTitle: existingGraph.title,
+      anchorTitle: anchor.title,
+      ancestors: describe(ancestors),
+      descendants: describe(descendants),
+      nodeTitles: nodesInGraph.map((n) => n.title).join(", "),
+      position: direction === "prerequisite" ? "BEFORE" : "AFTER",
+    });
+
+    for (let attempt = 1; attempt <= MAX_SUGGESTION_ATTEMPTS; attempt++) {
+      try {
+        const suggestion = await this.llm.executeLLM(prompt.text, {
+          user: existingGraph.owner,
+          concept: "EnrichedDAG",
+          action: "suggestNeighborNode",
+          promptTemplate: prompt.templateId,
+          cache: false,
+        });
+        const suggestedNodeTitle = suggestion.trim().replace(/['"]/g, "");
+        if (
+          suggestedNodeTitle !== "" &&
+          !takenTitles.has(suggestedNodeTitle.toLowerCase())
+        ) {
+          return withEdge(suggestedNodeTitle);
+        }
+      } catch (error) {
+        console.error("LLM error:", error);
+        return { ...fallback(), ...fallbackMarker(error) };
+      }
+    }
+
+    return fallback();
+  }
+
   /**
    * Action: Suggests an edge using AI.
    * @async
    * @requires Graph is in the set of Graphs.
-   * @effects Returns a suggestion for a new edge using AI. Returns suggested source and target Nodes, and a reasonable flag.
+   * @effects Returns a suggestion for a new edge using AI. Returns suggested source and target Nodes, a reasonable flag, and a short rationale. The suggested edge can be added without creating a duplicate or a cycle whenever such an edge exists. If the call to the AI fails, the fallback is marked with an error and a fallback flag.
    */
   async suggestEdge(
     { graph }: { graph: Graph },
@@ -483,7 +1778,14 @@ Respond with ONLY the suggested title, nothing else. Do not include quotation ma
       suggestedSourceNode: Node;
       suggestedTargetNode: Node;
       reasonable: boolean;
+      rationale: string;
     }
+    | {
+      suggestedSourceNode: Node;
+      suggestedTargetNode: Node;
+      reasonable: boolean;
+      rationale: string;
+    } & FallbackMarker
     | { error: string }
   > {
     const existingGraph = await this.graphs.findOne({ _id: graph });
@@ -491,101 +1793,516 @@ Respond with ONLY the suggested title, nothing else. Do not include quotation ma
       return { error: "Graph not found" };
     }
 
-    const nodesInGraph = await this.nodes.find({ parent: graph }).toArray();
-    const nodeIds = nodesInGraph.map((n) => n._id);
-
-    // Get edges where source is in this graph
-    const edgesInGraph = await this.edges.find({
-      source: { $in: nodeIds },
-    }).toArray();
+    const { nodes: nodesInGraph, edges: edgesInGraph } = await this.loadGraph(
+      graph,
+    );
 
     if (nodesInGraph.length < 2) {
       return {
         suggestedSourceNode: nodesInGraph[0]?._id || "" as Node,
         suggestedTargetNode: nodesInGraph[0]?._id || "" as Node,
         reasonable: false,
+        rationale: "The graph needs at least two nodes to suggest an edge",
       };
     }
 
+    const candidates = candidateEdges(nodesInGraph, edgesInGraph);
+    if (candidates.length === 0) {
+      return {
+        suggestedSourceNode: nodesInGraph[0]._id,
+        suggestedTargetNode: nodesInGraph[1]._id,
+        reasonable: false,
+        rationale: "Every possible edge already exists or would create a cycle",
+      };
+    }
+
+    const randomCandidate = () =>
+      candidates[Math.floor(Math.random() * candidates.length)];
+
     if (!this.llm) {
       // Fallback to random suggestion
-      const sourceIdx = Math.floor(Math.random() * nodesInGraph.length);
-      let targetIdx = Math.floor(Math.random() * nodesInGraph.length);
-      while (targetIdx === sourceIdx) {
-        targetIdx = Math.floor(Math.random() * nodesInGraph.length);
-      }
+      const [source, target] = randomCandidate();
       return {
-        suggestedSourceNode: nodesInGraph[sourceIdx]._id,
-        suggestedTargetNode: nodesInGraph[targetIdx]._id,
+        suggestedSourceNode: source._id,
+        suggestedTargetNode: target._id,
         reasonable: true,
+        rationale: "Randomly selected, since no AI model is available",
       };
     }
 
     // Build prompt for AI
-    const nodeList = nodesInGraph.map((n, i) => `${i + 1}. ${n.title}`).join(
-      "\n",
+    const prompt = renderPrompt("EnrichedDAG/suggestEdge", {
+      graphTitle: existingGraph.title,
+      graph: describeGraph(nodesInGraph, edgesInGraph),
+    });
+
+    let attemptPrompt = prompt;
+    for (let attempt = 1; attempt <= MAX_SUGGESTION_ATTEMPTS; attempt++) {
+      let answer = "";
+      try {
+        answer = await this.llm.executeLLM(attemptPrompt.text, {
+          responseSchema: EDGE_SUGGESTION_SCHEMA,
+          user: existingGraph.owner,
+          concept: "EnrichedDAG",
+          action: "suggestEdge",
+          promptTemplate: attemptPrompt.templateId,
+          cache: false,
+        });
+      } catch (error) {
+        console.error("LLM error:", error);
+        const [source, target] = randomCandidate();
+        return {
+          suggestedSourceNode: source._id,
+          suggestedTargetNode: target._id,
+          reasonable: false,
+          rationale: "Randomly selected, since the AI could not be reached",
+          ...fallbackMarker(error),
+        };
+      }
+
+      let problem: string;
+      try {
+        const parsed = JSON.parse(answer);
+        const match = candidates.find(([source, target]) =>
+          source.title === parsed.source && target.title === parsed.target
+        );
+        if (match) {
+          return {
+            suggestedSourceNode: match[0]._id,
+            suggestedTargetNode: match[1]._id,
+            reasonable: parsed.reasonable === true,
+            rationale: String(parsed.rationale ?? ""),
+          };
+        }
+        problem = describeInvalidEdge(
+          nodesInGraph,
+          edgesInGraph,
+          parsed.source,
+          parsed.target,
+        );
+      } catch {
+        problem = "the answer was not valid JSON";
+      }
+
+      // Ask again, telling the model what was wrong with its answer
+      attemptPrompt = renderPrompt("EnrichedDAG/suggestEdgeRetry", {
+        prompt,
+        answer,
+        problem,
+      });
+    }
+
+    // Fallback
+    const [source, target] = randomCandidate();
+    return {
+      suggestedSourceNode: source._id,
+      suggestedTargetNode: target._id,
+      reasonable: false,
+      rationale: "Randomly selected, since the AI gave no valid suggestion",
+    };
+  }
+
+  /**
+   * Action: Suggests several node titles using AI, ranked by confidence.
+   * @async
+   * @requires Graph is in the set of Graphs. Count is a positive integer.
+   * @effects Returns up to count suggested titles for new nodes with confidence scores between 0 and 1, best first. Suggested titles are distinct and differ from the titles of existing nodes in the graph. If the call to the AI fails, the fallback is marked with an error and a fallback flag.
+   */
+  async suggestNodeTitles(
+    { graph, count }: { graph: Graph; count: number },
+  ): Promise<
+    | { suggestions: { title: string; confidence: number }[] }
+    | { suggestions: { title: string; confidence: number }[] } & FallbackMarker
+    | { error: string }
+  > {
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
+    if (!Number.isInteger(count) || count < 1) {
+      return { error: "Count must be a positive integer" };
+    }
+    const wanted = Math.min(count, MAX_SUGGESTIONS);
+
+    const { nodes: nodesInGraph, edges: edgesInGraph } = await this.loadGraph(
+      graph,
     );
-    const edgeDescriptions = [];
-    for (const edge of edgesInGraph) {
-      const sourceNode = nodesInGraph.find((n) => n._id === edge.source);
-      const targetNode = nodesInGraph.find((n) => n._id === edge.target);
-      if (sourceNode && targetNode) {
-        edgeDescriptions.push(`${sourceNode.title} → ${targetNode.title}`);
+    const takenTitles = new Set(nodesInGraph.map((n) => n.title.toLowerCase()));
+
+    const fallback = () => {
+      const suggestions: { title: string; confidence: number }[] = [];
+      for (let i = nodesInGraph.length + 1; suggestions.length < wanted; i++) {
+        if (!takenTitles.has(`node ${i}`)) {
+          suggestions.push({ title: `Node ${i}`, confidence: 0 });
+        }
       }
+      return { suggestions };
+    };
+
+    if (!this.llm) {
+      return fallback();
     }
 
-    const prompt =
-      `You are helping create an edge in a directed acyclic graph titled "${existingGraph.title}".
+    const prompt = renderPrompt("EnrichedDAG/suggestNodeTitles", {
+      graphTitle: existingGraph.title,
+      graph: describeGraph(nodesInGraph, edgesInGraph),
+      count: wanted,
+    });
 
-Nodes in the graph:
-${nodeList}
+    for (let attempt = 1; attempt <= MAX_SUGGESTION_ATTEMPTS; attempt++) {
+      let response: string;
+      try {
+        response = await this.llm.executeLLM(prompt.text, {
+          responseSchema: NODE_TITLES_SCHEMA,
+          user: existingGraph.owner,
+          concept: "EnrichedDAG",
+          action: "suggestNodeTitles",
+          promptTemplate: prompt.templateId,
+          cache: false,
+        });
+      } catch (error) {
+        console.error("LLM error:", error);
+        return { ...fallback(), ...fallbackMarker(error) };
+      }
 
-Current edges:
-${edgeDescriptions.join("\n") || "none"}
+      try {
+        const answer = JSON.parse(response);
+        if (!Array.isArray(answer)) {
+          continue;
+        }
 
-Suggest a reasonable edge that would make sense in this graph. Respond with ONLY:
-1. The source node title
-2. The target node title
-3. Whether this suggestion is reasonable (yes/no)
+        const seen = new Set(takenTitles);
+        const suggestions: { title: string; confidence: number }[] = [];
+        for (const item of answer) {
+          const title = String(item?.title ?? "").trim().replace(/['"]/g, "");
+          if (title === "" || seen.has(title.toLowerCase())) {
+            continue;
+          }
+          seen.add(title.toLowerCase());
+          const confidence = Number(item.confidence);
+          suggestions.push({
+            title,
+            confidence: Number.isFinite(confidence)
+              ? Math.min(1, Math.max(0, confidence))
+              : 0,
+          });
+        }
 
-Format: source|target|reasonable`;
+        if (suggestions.length > 0) {
+          suggestions.sort((a, b) => b.confidence - a.confidence);
+          return { suggestions: suggestions.slice(0, wanted) };
+        }
+      } catch {
+        // Not valid JSON, ask again
+      }
+    }
 
-    try {
-      const result = await this.llm.executeLLM(prompt);
-      const parts = result.trim().split("|");
-      if (parts.length >= 2) {
-        const sourceTitle = parts[0].trim();
-        const targetTitle = parts[1].trim();
-        const reasonable = parts[2]?.toLowerCase().includes("yes") || false;
+    return fallback();
+  }
 
-        const sourceNode = nodesInGraph.find((n) => n.title === sourceTitle);
-        const targetNode = nodesInGraph.find((n) => n.title === targetTitle);
+  /**
+   * Action: Suggests several edges using AI, ranked by confidence.
+   * @async
+   * @requires Graph is in the set of Graphs. Count is a positive integer.
+   * @effects Returns up to count suggested edges with confidence scores between 0 and 1 and a short rationale, best first. Suggested edges are distinct, don't duplicate existing edges, and don't create cycles. If the call to the AI fails, the fallback is marked with an error and a fallback flag.
+   */
+  async suggestEdges(
+    { graph, count }: { graph: Graph; count: number },
+  ): Promise<
+    | {
+      suggestions: {
+        source: Node;
+        target: Node;
+        confidence: number;
+        rationale: string;
+      }[];
+    }
+    | {
+      suggestions: {
+        source: Node;
+        target: Node;
+        confidence: number;
+        rationale: string;
+      }[];
+    } & FallbackMarker
+    | { error: string }
+  > {
+    const existingGraph = await this.graphs.findOne({ _id: graph });
+    if (!existingGraph) {
+      return { error: "Graph not found" };
+    }
+    if (!Number.isInteger(count) || count < 1) {
+      return { error: "Count must be a positive integer" };
+    }
+    const wanted = Math.min(count, MAX_SUGGESTIONS);
+
+    const { nodes: nodesInGraph, edges: edgesInGraph } = await this.loadGraph(
+      graph,
+    );
+    const candidates = candidateEdges(nodesInGraph, edgesInGraph);
+
+    const fallback = (rationale: string) => ({
+      suggestions: withoutCycles(
+        edgesInGraph,
+        sample(candidates, candidates.length).map(([source, target]) => ({
+          source: source._id,
+          target: target._id,
+          confidence: 0,
+          rationale,
+        })),
+      ).slice(0, wanted),
+    });
+
+    if (candidates.length === 0) {
+      // Every possible edge already exists or would close a cycle
+      return { suggestions: [] };
+    }
+    if (!this.llm) {
+      return fallback("Randomly selected, since no AI model is available");
+    }
+
+    const prompt = renderPrompt("EnrichedDAG/suggestEdges", {
+      graphTitle: existingGraph.title,
+      graph: describeGraph(nodesInGraph, edgesInGraph),
+      count: wanted,
+    });
+
+    for (let attempt = 1; attempt <= MAX_SUGGESTION_ATTEMPTS; attempt++) {
+      let response: string;
+      try {
+        response = await this.llm.executeLLM(prompt.text, {
+          responseSchema: EDGES_SCHEMA,
+          user: existingGraph.owner,
+          concept: "EnrichedDAG",
+          action: "suggestEdges",
+          promptTemplate: prompt.templateId,
+          cache: false,
+        });
+      } catch (error) {
+        console.error("LLM error:", error);
+        return {
+          ...fallback("Randomly selected, since the AI could not be reached"),
+          ...fallbackMarker(error),
+        };
+      }
 
-        if (sourceNode && targetNode) {
+      try {
+        const answer = JSON.parse(response);
+        if (!Array.isArray(answer)) {
+          continue;
+        }
+
+        const seen = new Set<string>();
+        const suggestions = [];
+        for (const item of answer) {
+          const match = candidates.find(([source, target]) =>
+            source.title === item?.source && target.title === item?.target
+          );
+          const key = `${item?.source}|${item?.target}`;
+          if (!match || seen.has(key)) {
+            continue;
+          }
+          seen.add(key);
+          const confidence = Number(item.confidence);
+          suggestions.push({
+            source: match[0]._id,
+            target: match[1]._id,
+            confidence: Number.isFinite(confidence)
+              ? Math.min(1, Math.max(0, confidence))
+              : 0,
+            rationale: String(item.rationale ?? ""),
+          });
+        }
+
+        if (suggestions.length > 0) {
+          // Suggestions are checked against each other too, so that accepting all of them keeps the graph acyclic
+          suggestions.sort((a, b) => b.confidence - a.confidence);
           return {
-            suggestedSourceNode: sourceNode._id,
-            suggestedTargetNode: targetNode._id,
-            reasonable,
+            suggestions: withoutCycles(edgesInGraph, suggestions).slice(
+              0,
+              wanted,
+            ),
           };
         }
+      } catch {
+        // Not valid JSON, ask again
       }
-    } catch (error) {
-      console.error("LLM error:", error);
     }
 
-    // Fallback
-    const sourceIdx = Math.floor(Math.random() * nodesInGraph.length);
-    let targetIdx = Math.floor(Math.random() * nodesInGraph.length);
-    while (targetIdx === sourceIdx) {
-      targetIdx = Math.floor(Math.random() * nodesInGraph.length);
+    return fallback("Randomly selected, since the AI gave no valid suggestion");
+  }
+
+  /**
+   * Action: Generates a whole graph for a topic using AI.
+   * @async
+   * @requires There are no Graphs with owner User and graphTitle as title String. maxNodes is a positive integer. An AI model is available. The AI returns at least one usable subtopic.
+   * @effects Asks the AI for the subtopics of topic and their prerequisites, and creates a new Graph with owner, graphTitle, a Node for each of at most maxNodes subtopics, and an Edge from each prerequisite to the subtopic that requires it. Edges that would close a cycle are dropped. The Nodes and Edges have no enrichment Object. Returns the new Graph, Nodes and Edges. If onToken is given, the answer of the AI is passed to it in chunks as it is produced. If the AI is asked again because its answer was unusable, onRetry is called first, and the chunks passed before it no longer count.
+   */
+  async generateGraphFromTopic(
+    { owner, graphTitle, topic, maxNodes, onToken, onRetry }: {
+      owner: User;
+      graphTitle: string;
+      topic: string;
+      maxNodes: number;
+      onToken?: (chunk: string) => void;
+      onRetry?: () => void;
+    },
+  ): Promise<
+    | { newGraph: Graph; newNodes: Node[]; newEdges: Edge[] }
+    | { error: string }
+  > {
+    if (!this.llm) {
+      return { error: "No AI model is available" };
+    }
+    if (!Number.isInteger(maxNodes) || maxNodes < 1) {
+      return { error: "maxNodes must be a positive integer" };
+    }
+    const limit = Math.min(maxNodes, MAX_GENERATED_NODES);
+
+    const existing = await this.graphs.findOne({ owner, title: graphTitle });
+    if (existing) {
+      return { error: "A graph with this title already exists for this user" };
+    }
+
+    const prompt = renderPrompt("EnrichedDAG/generateGraphFromTopic", {
+      topic,
+      maxNodes: limit,
+    });
+
+    let answer: { nodes?: unknown; edges?: unknown } | undefined;
+    for (let attempt = 1; attempt <= MAX_SUGGESTION_ATTEMPTS; attempt++) {
+      const options = {
+        responseSchema: TOPIC_GRAPH_SCHEMA,
+        user: owner,
+        concept: "EnrichedDAG",
+        action: "generateGraphFromTopic",
+        promptTemplate: prompt.templateId,
+        // A retry needs a new answer, not the rejected one from the cache
+        cache: attempt === 1,
+      };
+      if (attempt > 1) {
+        onRetry?.();
+      }
+      let response = "";
+      try {
+        if (onToken) {
+          // Forward the answer as it is produced, e.g. to a streaming HTTP response
+          for await (const chunk of this.llm.stream(prompt.text, options)) {
+            response += chunk;
+            onToken(chunk);
+          }
+        } else {
+          response = await this.llm.executeLLM(prompt.text, options);
+        }
+      } catch (error) {
+        console.error("LLM error:", error);
+        return { error: "The AI model could not be reached" };
+      }
+      try {
+        const parsed = JSON.parse(response);
+        if (Array.isArray(parsed?.nodes) && parsed.nodes.length > 0) {
+          answer = parsed;
+          break;
+        }
+      } catch {
+        // Not valid JSON, ask again
+      }
+    }
+    if (!answer) {
+      return { error: "The AI did not return a usable graph" };
+    }
+
+    // Build all documents in memory first, so nothing is inserted unless the whole graph is valid
+    const graphId = freshID() as Graph;
+    const nodeByTitle = new Map<string, NodeDoc>();
+    for (const item of answer.nodes as unknown[]) {
+      const title = String(item ?? "").trim();
+      if (title === "" || nodeByTitle.has(title)) {
+        continue;
+      }
+      if (nodeByTitle.size === limit) {
+        break;
+      }
+      nodeByTitle.set(title, {
+        _id: freshID() as Node,
+        parent: graphId,
+        title,
+      });
+    }
+    if (nodeByTitle.size === 0) {
+      return { error: "The AI returned no usable nodes" };
+    }
+
+    // Edges are added one by one, skipping any that would close a cycle
+    const successors = new Map<Node, Set<Node>>();
+    const reaches = (from: Node, to: Node): boolean => {
+      const stack = [from];
+      const visited = new Set<Node>();
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === to) {
+          return true;
+        }
+        if (visited.has(current)) {
+          continue;
+        }
+        visited.add(current);
+        stack.push(...(successors.get(current) ?? []));
+      }
+      return false;
+    };
+
+    const edgeDocs: EdgeDoc[] = [];
+    const edges = Array.isArray(answer.edges) ? answer.edges : [];
+    for (const item of edges) {
+      const source = nodeByTitle.get(String(item?.source ?? "").trim());
+      const target = nodeByTitle.get(String(item?.target ?? "").trim());
+      if (
+        !source || !target || source._id === target._id ||
+        successors.get(source._id)?.has(target._id) ||
+        reaches(target._id, source._id)
+      ) {
+        continue;
+      }
+      if (!successors.has(source._id)) {
+        successors.set(source._id, new Set());
+      }
+      successors.get(source._id)!.add(target._id);
+      edgeDocs.push({
+        _id: freshID() as Edge,
+        graph: graphId,
+        source: source._id,
+        target: target._id,
+      });
     }
+
+    const nodeDocs = [...nodeByTitle.values()];
+    const write = async (session: ClientSession) => {
+      await this.graphs.insertOne({ _id: graphId, owner, title: graphTitle }, {
+        session,
+      });
+      await this.nodes.insertMany(nodeDocs, { session });
+      if (edgeDocs.length > 0) {
+        await this.edges.insertMany(edgeDocs, { session });
+      }
+    };
+
+    await this.inTransaction(write);
+
     return {
-      suggestedSourceNode: nodesInGraph[sourceIdx]._id,
-      suggestedTargetNode: nodesInGraph[targetIdx]._id,
-      reasonable: false,
+      newGraph: graphId,
+      newNodes: nodeDocs.map((n) => n._id),
+      newEdges: edgeDocs.map((e) => e._id),
     };
   }
 
+  /**
+   * Query: Retrieves all graphs owned by a user.
+   */
+  async _getUserGraphs({ owner }: { owner: User }): Promise<GraphDoc[]> {
+    return await this.graphs.find({ owner }).toArray();
+  }
+
   /**
    * Query: Retrieves all nodes in a graph.
    */
@@ -597,15 +2314,124 @@ Format: source|target|reasonable`;
    * Query: Retrieves all edges in a graph.
    */
   async _getGraphEdges({ graph }: { graph: Graph }): Promise<EdgeDoc[]> {
-    const nodesInGraph = await this.nodes.find({ parent: graph }).toArray();
-    const nodeIds = nodesInGraph.map((n) => n._id);
-    if (nodeIds.length === 0) {
-      return [];
+    return await this.findGraphEdges(graph);
+  }
+
+  /**
+   * Query: Retrieves all edges of a graph whose target can also be reached from their source through other edges.
+   */
+  async _getRedundantEdges({ graph }: { graph: Graph }): Promise<EdgeDoc[]> {
+    const { nodes, edges } = await this.loadGraph(graph);
+    return findRedundantEdges(nodes, edges);
+  }
+
+  /**
+   * Query: Retrieves summary statistics of a graph.
+   * Layers are numbered by the longest chain of prerequisites leading to a node, so
+   * depth is the number of nodes on the longest chain and layerWidths counts the
+   * nodes in each layer. Components counts weakly connected components.
+   */
+  async _getGraphStats({ graph }: { graph: Graph }): Promise<
+    {
+      nodeCount: number;
+      edgeCount: number;
+      roots: Node[];
+      leaves: Node[];
+      depth: number;
+      layerWidths: number[];
+      components: number;
+    }[]
+  > {
+    const { nodes, edges } = await this.loadGraph(graph);
+    const hasIncoming = new Set(edges.map((e) => e.target));
+    const hasOutgoing = new Set(edges.map((e) => e.source));
+
+    // Layer of a node is one more than the deepest of its prerequisites
+    const layer = new Map<Node, number>();
+    const order = topologicalSort(nodes, edges);
+    for (const node of order) {
+      const incoming = edges.filter((e) => e.target === node._id);
+      layer.set(
+        node._id,
+        Math.max(-1, ...incoming.map((e) => layer.get(e.source)!)) + 1,
+      );
     }
-    return await this.edges.find({
-      source: { $in: nodeIds },
-      target: { $in: nodeIds },
-    }).toArray();
+    const layerWidths: number[] = [];
+    for (const value of layer.values()) {
+      layerWidths[value] = (layerWidths[value] ?? 0) + 1;
+    }
+
+    // Union-find over undirected edges to count components
+    const representative = new Map<Node, Node>(
+      nodes.map((n) => [n._id, n._id]),
+    );
+    const find = (node: Node): Node => {
+      let current = node;
+      while (representative.get(current) !== current) {
+        current = representative.get(current)!;
+      }
+      representative.set(node, current);
+      return current;
+    };
+    let components = nodes.length;
+    for (const edge of edges) {
+      const a = find(edge.source);
+      const b = find(edge.target);
+      if (a !== b) {
+        representative.set(a, b);
+        components--;
+      }
+    }
+
+    return [{
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+      roots: order.filter((n) => !hasIncoming.has(n._id)).map((n) => n._id),
+      leaves: order.filter((n) => !hasOutgoing.has(n._id)).map((n) => n._id),
+      depth: layerWidths.length,
+      layerWidths,
+      components,
+    }];
+  }
+
+  /**
+   * Query: Retrieves the heaviest chain of nodes in a graph.
+   * Nodes weigh their weight named weightField (0 if unset), or 1 if no weightField is provided.
+   */
+  async _getCriticalPath(
+    { graph, weightField }: { graph: Graph; weightField?: string },
+  ): Promise<{ path: Node[]; totalWeight: number }[]> {
+    const { nodes, edges } = await this.loadGraph(graph);
+    const weightOf = (node: NodeDoc) =>
+      weightField === undefined ? 1 : node.weights?.[weightField] ?? 0;
+
+    // Heaviest chain ending at each node, built in topological order
+    const best = new Map<Node, number>();
+    const previous = new Map<Node, Node>();
+    let end: Node | undefined;
+    for (const node of topologicalSort(nodes, edges)) {
+      let heaviest = 0;
+      for (const edge of edges) {
+        if (edge.target === node._id && best.get(edge.source)! > heaviest) {
+          heaviest = best.get(edge.source)!;
+          previous.set(node._id, edge.source);
+        }
+      }
+      best.set(node._id, heaviest + weightOf(node));
+      if (end === undefined || best.get(node._id)! > best.get(end)!) {
+        end = node._id;
+      }
+    }
+
+    if (end === undefined) {
+      return [{ path: [], totalWeight: 0 }];
+    }
+
+    const path = [end];
+    while (previous.has(path[0])) {
+      path.unshift(previous.get(path[0])!);
+    }
+    return [{ path, totalWeight: best.get(end)! }];
   }
 
   /**
@@ -621,4 +2447,90 @@ Format: source|target|reasonable`;
   async _getNodeIncomingEdges({ node }: { node: Node }): Promise<EdgeDoc[]> {
     return await this.edges.find({ target: node }).toArray();
   }
+
+  /**
+   * Query: Retrieves all nodes in a graph in topological order.
+   * Every node appears after all of its prerequisites; ties are broken by title.
+   */
+  async _getTopologicalOrder({ graph }: { graph: Graph }): Promise<NodeDoc[]> {
+    const { nodes, edges } = await this.loadGraph(graph);
+    return topologicalSort(nodes, edges);
+  }
+
+  /**
+   * Query: Retrieves the minimal ordered set of nodes to go through to reach targetNode.
+   * Returns all ancestors of targetNode followed by targetNode itself, in topological order.
+   */
+  async _getLearningPath(
+    { graph, targetNode }: { graph: Graph; targetNode: Node },
+  ): Promise<NodeDoc[]> {
+    const { nodes, edges } = await this.loadGraph(graph);
+    if (!nodes.some((n) => n._id === targetNode)) {
+      return [];
+    }
+
+    const incoming = new Map<Node, Node[]>();
+    for (const edge of edges) {
+      if (!incoming.has(edge.target)) {
+        incoming.set(edge.target, []);
+      }
+      incoming.get(edge.target)!.push(edge.source);
+    }
+
+    // Walk backwards from the target to collect all of its prerequisites
+    const required = new Set<Node>([targetNode]);
+    const stack = [targetNode];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      for (const prerequisite of incoming.get(current) || []) {
+        if (!required.has(prerequisite)) {
+          required.add(prerequisite);
+          stack.push(prerequisite);
+        }
+      }
+    }
+
+    return topologicalSort(nodes, edges).filter((n) => required.has(n._id));
+  }
+
+  /**
+   * Query: Retrieves all nodes from which node can be reached, with their distance to node.
+   * Only nodes at most maxDepth edges away are returned if maxDepth is provided.
+   */
+  async _getAncestors(
+    { node, maxDepth }: { node: Node; maxDepth?: number },
+  ): Promise<(NodeDoc & { depth: number })[]> {
+    return await this.collectReachable(node, "backward", maxDepth);
+  }
+
+  /**
+   * Query: Retrieves all nodes reachable from node, with their distance from node.
+   * Only nodes at most maxDepth edges away are returned if maxDepth is provided.
+   */
+  async _getDescendants(
+    { node, maxDepth }: { node: Node; maxDepth?: number },
+  ): Promise<(NodeDoc & { depth: number })[]> {
+    return await this.collectReachable(node, "forward", maxDepth);
+  }
+
+  /**
+   * Query: Checks whether target can be reached from source by following edges.
+   */
+  async _isReachable(
+    { source, target }: { source: Node; target: Node },
+  ): Promise<{ reachable: boolean }[]> {
+    if (source === target) {
+      const existing = await this.nodes.findOne({ _id: source });
+      return [{ reachable: existing !== null }];
+    }
+    const descendants = await this.collectReachable(source, "forward");
+    return [{ reachable: descendants.some((n) => n._id === target) }];
+  }
+
+  /**
+   * Query: Retrieves all graphs that were cloned from a graph.
+   */
+  async _getForks({ graph }: { graph: Graph }): Promise<GraphDoc[]> {
+    return await this.graphs.find({ forkedFrom: graph }).toArray();
+  }
 }
@@ -0,0 +1,228 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import { AuditedLLM } from "@utils/audited-llm.ts";
+import { StubLLM } from "@utils/stub-llm.ts";
+import LLMAuditConcept from "./LLMAuditConcept.ts";
+
+const userA = "user:Alice" as ID;
+const userB = "user:Bob" as ID;
+
+/**
+ * Returns the rows of a usage query, failing the test if it returned an error.
+ */
+function rows<T>(result: T[] | { error: string }): T[] {
+  if (!Array.isArray(result)) {
+    throw new Error(`Query failed: ${result.error}`);
+  }
+  return result;
+}
+
+Deno.test(
+  "Principle: Calls to the AI are recorded and summarized per user and per action",
+  async () => {
+    const [db, client] = await testDb();
+    const auditConcept = new LLMAuditConcept(db);
+
+    try {
+      console.log("\n# Trace: Fulfilling the LLMAudit Operational Principle");
+
+      // 1. Record calls of two users from two actions
+      console.log("\n## 1. Record calls");
+      const calls = [
+        {
+          user: userA,
+          action: "suggestEdge",
+          promptTokens: 100,
+          outputTokens: 20,
+          latencyMs: 300,
+        },
+        {
+          user: userA,
+          action: "suggestNodeTitle",
+          promptTokens: 50,
+          outputTokens: 5,
+          latencyMs: 100,
+        },
+        {
+          user: userB,
+          action: "suggestEdge",
+          promptTokens: 120,
+          outputTokens: 30,
+          latencyMs: 500,
+        },
+      ];
+      for (const call of calls) {
+        const result = await auditConcept.recordCall({
+          ...call,
+          concept: "EnrichedDAG",
+          prompt: "prompt",
+          response: "response",
+          model: "gemini-2.5-flash-lite",
+        });
+        assertEquals("error" in result, false, "Recording should succeed");
+      }
+      console.log(`✓ Recorded ${calls.length} calls`);
+
+      // 2. Summarize per user
+      console.log("\n## 2. Summarize usage of Alice");
+      const [usage] = rows(await auditConcept._getLLMUsage({ user: userA }));
+      assertEquals(usage.calls, 2);
+      assertEquals(usage.promptTokens, 150);
+      assertEquals(usage.outputTokens, 25);
+      assertEquals(usage.totalTokens, 175);
+      assertEquals(usage.averageLatencyMs, 200);
+      console.log(
+        `✓ Alice used ${usage.totalTokens} tokens in ${usage.calls} calls`,
+      );
+
+      // 3. Summarize per action
+      console.log("\n## 3. Summarize usage per action");
+      const byAction = rows(await auditConcept._getLLMUsageByAction());
+      assertEquals(
+        byAction.map((u) => [u.concept, u.action, u.calls, u.totalTokens]),
+        [
+          ["EnrichedDAG", "suggestEdge", 2, 270],
+          ["EnrichedDAG", "suggestNodeTitle", 1, 55],
+        ],
+      );
+      console.log("✓ suggestEdge is the most expensive action");
+
+      // 4. Usage since a later time is empty
+      const [later] = rows(
+        await auditConcept._getLLMUsage({
+          user: userA,
+          since: new Date(Date.now() + 60_000),
+        }),
+      );
+      assertEquals(later, {
+        calls: 0,
+        failures: 0,
+        cachedCalls: 0,
+        promptTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        averageLatencyMs: 0,
+      }, "No calls happened after now");
+      console.log("✓ Usage can be limited to a time range");
+
+      // 5. Invalid points in time are rejected
+      console.log("\n## 5. Summarize usage since an invalid time");
+      const invalid = await auditConcept._getLLMUsageByAction({
+        since: "yesterday",
+      });
+      assertEquals("error" in invalid, true, "The time can't be parsed");
+      console.log(
+        `✗ Failed as expected: ${(invalid as { error: string }).error}`,
+      );
+    } finally {
+      await client.close();
+    }
+  },
+);
+
+Deno.test("Action: recordCall through an audited LLM", async () => {
+  const [db, client] = await testDb();
+  const auditConcept = new LLMAuditConcept(db);
+  const llm = new AuditedLLM(
+    new StubLLM({ script: ["Loops"] }),
+    auditConcept,
+  );
+
+  try {
+    console.log("\n# Testing Audited LLM Calls");
+
+    // Successful call
+    console.log("\n## 1. Make a successful call");
+    const answer = await llm.executeLLM("Suggest a topic", {
+      user: userA,
+      concept: "EnrichedDAG",
+      action: "suggestNodeTitle",
+    });
+    assertEquals(answer, "Loops");
+    console.log("✓ Call answered and recorded");
+
+    // Failed call
+    console.log("\n## 2. Make a failing call");
+    let failed = false;
+    try {
+      await llm.executeLLM("Suggest another topic", {
+        user: userA,
+        concept: "EnrichedDAG",
+        action: "suggestNodeTitle",
+      });
+    } catch {
+      failed = true;
+    }
+    assertEquals(failed, true, "The stub has no more answers");
+    console.log("✗ Call failed as expected, and was recorded");
+
+    // Both calls are accounted for
+    console.log("\n## 3. Check the audit log");
+    const recorded = await auditConcept.calls.find({ user: userA }).toArray();
+    assertEquals(recorded.length, 2);
+    assertEquals(recorded[0].response, "Loops");
+    assertEquals(recorded[0].model, "stub");
+    assertEquals(recorded[1].error !== undefined, true);
+    const [usage] = rows(await auditConcept._getLLMUsage({ user: userA }));
+    assertEquals(usage.failures, 1);
+    console.log("✓ Both calls appear in the audit log");
+
+    // Invalid entries
+    const invalid = await auditConcept.recordCall({
+      prompt: "prompt",
+      response: "response",
+      model: "stub",
+      latencyMs: -1,
+    });
+    assertEquals("error" in invalid, true, "Latency must not be negative");
+    console.log("✗ Negative latency rejected as expected");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Query: _getLLMUsageByPromptTemplate compares template versions", async () => {
+  const [db, client] = await testDb();
+  const auditConcept = new LLMAuditConcept(db);
+
+  try {
+    console.log("\n# Testing Usage per Prompt Template");
+
+    // Record calls made with two versions of a template
+    console.log("\n## 1. Record calls of two template versions");
+    const calls = [
+      { promptTemplate: "EnrichedDAG/suggestEdge@v1", latencyMs: 400 },
+      { promptTemplate: "EnrichedDAG/suggestEdge@v1", latencyMs: 200 },
+      { promptTemplate: "EnrichedDAG/suggestEdge@v2", latencyMs: 100 },
+      { latencyMs: 50 },
+    ];
+    for (const call of calls) {
+      await auditConcept.recordCall({
+        ...call,
+        user: userA,
+        prompt: "prompt",
+        response: "response",
+        model: "stub",
+        promptTokens: 10,
+        outputTokens: 5,
+      });
+    }
+    console.log(`✓ Recorded ${calls.length} calls`);
+
+    // Compare them
+    console.log("\n## 2. Summarize usage per template version");
+    const byTemplate = rows(await auditConcept._getLLMUsageByPromptTemplate());
+    assertEquals(
+      byTemplate.map((u) => [u.promptTemplate, u.calls, u.averageLatencyMs]),
+      [
+        [undefined, 1, 50],
+        ["EnrichedDAG/suggestEdge@v1", 2, 300],
+        ["EnrichedDAG/suggestEdge@v2", 1, 100],
+      ],
+    );
+    console.log("✓ Version 2 answers faster than version 1");
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,287 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "LLMAudit" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Internal entity types, represented as IDs
+type Call = ID;
+
+/**
+ * State: A set of Calls with an optional User, optional calling concept and action Strings, an optional prompt template String, prompt and response Strings, model String, token counts, latency, a cached flag, an optional error String, and a creation time.
+ */
+interface CallDoc {
+  _id: Call;
+  user?: User;
+  concept?: string;
+  action?: string;
+  promptTemplate?: string;
+  prompt: string;
+  response: string;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  cached: boolean;
+  error?: string;
+  createdAt: Date;
+}
+
+/**
+ * Totals over a set of Calls
+ */
+interface UsageSummary {
+  calls: number;
+  failures: number;
+  cachedCalls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  averageLatencyMs: number;
+}
+
+// Summary of an empty set of Calls
+const NO_USAGE: UsageSummary = {
+  calls: 0,
+  failures: 0,
+  cachedCalls: 0,
+  promptTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  averageLatencyMs: 0,
+};
+
+/**
+ * Parses an optional point in time into a filter on the creation time of calls.
+ * Returns an error if it isn't a valid date.
+ */
+function sinceFilter(
+  since?: Date | string,
+): { createdAt?: { $gte: Date } } | { error: string } {
+  if (since === undefined) {
+    return {};
+  }
+  const date = new Date(since);
+  if (isNaN(date.getTime())) {
+    return { error: `"${since}" is not a valid point in time` };
+  }
+  return { createdAt: { $gte: date } };
+}
+
+/**
+ * Builds the aggregation stages that add up the token counts and latencies of
+ * the calls matching filter, per value of groupBy. Only the summed fields are
+ * read, so that prompts and responses are never loaded.
+ */
+function usageStages(
+  filter: object,
+  groupBy: string | object | null,
+): object[] {
+  return [
+    { $match: filter },
+    {
+      $project: {
+        concept: 1,
+        action: 1,
+        promptTemplate: 1,
+        promptTokens: 1,
+        outputTokens: 1,
+        totalTokens: 1,
+        latencyMs: 1,
+        cached: 1,
+        failed: { $cond: [{ $eq: [{ $type: "$error" }, "missing"] }, 0, 1] },
+      },
+    },
+    {
+      $group: {
+        _id: groupBy,
+        calls: { $sum: 1 },
+        failures: { $sum: "$failed" },
+        cachedCalls: { $sum: { $cond: ["$cached", 1, 0] } },
+        promptTokens: { $sum: "$promptTokens" },
+        outputTokens: { $sum: "$outputTokens" },
+        totalTokens: { $sum: "$totalTokens" },
+        averageLatencyMs: { $avg: "$latencyMs" },
+      },
+    },
+  ];
+}
+
+/**
+ * @concept LLMAudit
+ * @purpose keep account of calls made to language models, so that their cost can be budgeted and misbehaving prompts can be spotted
+ */
+export default class LLMAuditConcept {
+  calls: Collection<CallDoc>;
+  private indexesReady?: Promise<void>;
+
+  constructor(private readonly db: Db) {
+    this.calls = this.db.collection(PREFIX + "calls");
+  }
+
+  /**
+   * Action: Records a call made to a language model.
+   * @requires Token counts and latency are not negative.
+   * @effects Adds a new Call with the given details and the current time to the set of Calls. Missing token counts are recorded as 0. Returns the new Call.
+   */
+  async recordCall(
+    {
+      user,
+      concept,
+      action,
+      promptTemplate,
+      prompt,
+      response,
+      model,
+      promptTokens = 0,
+      outputTokens = 0,
+      totalTokens = promptTokens + outputTokens,
+      latencyMs,
+      cached = false,
+      error,
+    }: {
+      user?: User;
+      concept?: string;
+      action?: string;
+      promptTemplate?: string;
+      prompt: string;
+      response: string;
+      model: string;
+      promptTokens?: number;
+      outputTokens?: number;
+      totalTokens?: number;
+      latencyMs: number;
+      cached?: boolean;
+      error?: string;
+    },
+  ): Promise<{ call: Call } | { error: string }> {
+    if (
+      [promptTokens, outputTokens, totalTokens, latencyMs].some((n) => n < 0)
+    ) {
+      return { error: "Token counts and latency must not be negative" };
+    }
+
+    const callId = freshID() as Call;
+    await this.calls.insertOne({
+      _id: callId,
+      ...(user !== undefined && { user }),
+      ...(concept !== undefined && { concept }),
+      ...(action !== undefined && { action }),
+      ...(promptTemplate !== undefined && { promptTemplate }),
+      prompt,
+      response,
+      model,
+      promptTokens,
+      outputTokens,
+      totalTokens,
+      latencyMs,
+      cached,
+      ...(error !== undefined && { error }),
+      createdAt: new Date(),
+    });
+
+    return { call: callId };
+  }
+
+  /**
+   * Helper: Creates the indexes on users and creation times of calls on first use. If creation
+   * fails, usage is still summarized without them and creation is retried on the next query.
+   */
+  private async ensureIndexes(): Promise<void> {
+    this.indexesReady ??= Promise.all([
+      this.calls.createIndex({ user: 1, createdAt: 1 }),
+      this.calls.createIndex({ createdAt: 1 }),
+    ]).then(
+      () => {},
+      (error) => {
+        this.indexesReady = undefined;
+        console.error("Could not create the indexes on LLM calls:", error);
+      },
+    );
+    await this.indexesReady;
+  }
+
+  /**
+   * Query: Summarizes the calls made on behalf of a user, optionally only those made since a point in time.
+   */
+  async _getLLMUsage(
+    { user, since }: { user: User; since?: Date | string },
+  ): Promise<UsageSummary[] | { error: string }> {
+    const filter = sinceFilter(since);
+    if ("error" in filter) {
+      return filter;
+    }
+
+    await this.ensureIndexes();
+    const [usage] = await this.calls.aggregate<UsageSummary & { _id: null }>(
+      usageStages({ user, ...filter }, null),
+    ).toArray();
+    if (!usage) {
+      return [{ ...NO_USAGE }];
+    }
+    const { _id, ...summary } = usage;
+    return [summary];
+  }
+
+  /**
+   * Query: Summarizes calls per calling concept and action, optionally only those made since a point in time, most tokens first.
+   */
+  async _getLLMUsageByAction(
+    { since }: { since?: Date | string } = {},
+  ): Promise<
+    ({ concept?: string; action?: string } & UsageSummary)[] | {
+      error: string;
+    }
+  > {
+    const filter = sinceFilter(since);
+    if ("error" in filter) {
+      return filter;
+    }
+
+    await this.ensureIndexes();
+    const groups = await this.calls.aggregate<
+      UsageSummary & { _id: { concept?: string; action?: string } }
+    >([
+      ...usageStages(filter, { concept: "$concept", action: "$action" }),
+      { $sort: { totalTokens: -1 } },
+    ]).toArray();
+
+    return groups.map(({ _id, ...summary }) => ({
+      concept: _id.concept,
+      action: _id.action,
+      ...summary,
+    }));
+  }
+
+  /**
+   * Query: Summarizes calls per prompt template version, optionally only those made since a point in time, so that versions can be compared.
+   */
+  async _getLLMUsageByPromptTemplate(
+    { since }: { since?: Date | string } = {},
+  ): Promise<
+    ({ promptTemplate?: string } & UsageSummary)[] | { error: string }
+  > {
+    const filter = sinceFilter(since);
+    if ("error" in filter) {
+      return filter;
+    }
+
+    await this.ensureIndexes();
+    const groups = await this.calls.aggregate<
+      UsageSummary & { _id: string | null }
+    >([
+      ...usageStages(filter, "$promptTemplate"),
+      { $sort: { _id: 1 } },
+    ]).toArray();
+
+    return groups.map(({ _id, ...summary }) => ({
+      promptTemplate: _id ?? undefined,
+      ...summary,
+    }));
+  }
+}
@@ -1,6 +1,9 @@
 import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
 import { testDb } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
+import { type LLMProvider, LLMRequestError } from "@utils/llm.ts";
+import { ManagedLLM } from "@utils/managed-llm.ts";
+import { StubLLM } from "@utils/stub-llm.ts";
 import ObjectManagerConcept from "./ObjectManagerConcept.ts";
 
 const userA = "user:Alice" as ID;
@@ -490,6 +493,148 @@ Deno.test("Action: suggestTitle async behavior", async () => {
   }
 });
 
+Deno.test("Action: suggestTitle replays recorded LLM responses", async () => {
+  const [db, client] = await testDb();
+
+  try {
+    console.log("\n# Testing suggestTitle With a Stubbed LLM");
+
+    // Create some objects
+    console.log("\n## 1. Create assigned objects");
+    await new ObjectManagerConcept(db).createAssignedObject({
+      owner: userA,
+      object: object1,
+      title: "First Object",
+      description: "Description 1",
+    });
+    await new ObjectManagerConcept(db).createAssignedObject({
+      owner: userA,
+      object: object2,
+      title: "Second Object",
+      description: "Description 2",
+    });
+    console.log("✓ Created 2 assigned objects");
+
+    // Record the answer of a provider
+    console.log("\n## 2. Record a suggestion");
+    const recorder = new StubLLM({
+      recordFrom: new StubLLM({ script: ['"Third Object"'] }),
+    });
+    const recorded = await new ObjectManagerConcept(db, recorder).suggestTitle({
+      owner: userA,
+    });
+    assertEquals(recorded, { titleSuggestion: "Third Object" });
+    assertEquals(Object.keys(recorder.toJSON()).length, 1);
+    console.log("✓ Recorded one response");
+
+    // Replay it by prompt hash
+    console.log("\n## 3. Replay the recorded suggestion");
+    const replay = new StubLLM({ responses: recorder.toJSON() });
+    const replayed = await new ObjectManagerConcept(db, replay).suggestTitle({
+      owner: userA,
+    });
+    assertEquals(replayed, recorded, "Same prompt should get same answer");
+    console.log(
+      `✓ Replayed: "${
+        (replayed as { titleSuggestion: string }).titleSuggestion
+      }"`,
+    );
+
+    // Unknown prompts fail, and the concept falls back
+    console.log("\n## 4. Suggest with no stubbed response");
+    const fallback = await new ObjectManagerConcept(db, new StubLLM())
+      .suggestTitle({ owner: userA });
+    const { titleSuggestion, fallback: usedFallback } = fallback as {
+      titleSuggestion: string;
+      fallback?: boolean;
+    };
+    assertEquals(titleSuggestion, "My Object 3");
+    assertEquals(usedFallback, true, "Fallback should be marked");
+    assertEquals("error" in fallback, true, "Failure should be explained");
+    console.log("✓ Fell back to simple suggestion, marked as fallback");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: suggestTitle through a managed LLM caches, limits and retries", async () => {
+  const [db, client] = await testDb();
+
+  try {
+    console.log("\n# Testing suggestTitle With a Managed LLM");
+
+    // Create objects for two users
+    console.log("\n## 1. Create assigned objects");
+    const plain = new ObjectManagerConcept(db);
+    await plain.createAssignedObject({
+      owner: userA,
+      object: object1,
+      title: "First Object",
+      description: "Description 1",
+    });
+    await plain.createAssignedObject({
+      owner: userB,
+      object: object2,
+      title: "Other Object",
+      description: "Description 2",
+    });
+    console.log("✓ Created one object for each user");
+
+    // Transient failures are retried
+    console.log("\n## 2. Retry a transient failure");
+    let failures = 1;
+    const stub = new StubLLM({ script: ["Second Object", "Another Object"] });
+    const flaky: LLMProvider = {
+      model: stub.model,
+      generate: (prompt, options) => {
+        if (failures-- > 0) {
+          return Promise.reject(new LLMRequestError("Quota exceeded", 429));
+        }
+        return stub.generate(prompt, options);
+      },
+      executeLLM: (prompt, options) => stub.executeLLM(prompt, options),
+      stream: (prompt, options) => stub.stream(prompt, options),
+    };
+    const managed = new ManagedLLM(db, flaky, {
+      userLimit: { requests: 1, windowMs: 60_000 },
+      baseDelayMs: 1,
+    });
+    const objectManager = new ObjectManagerConcept(db, managed);
+    const first = await objectManager.suggestTitle({ owner: userA });
+    assertEquals(first, { titleSuggestion: "Second Object" });
+    console.log("✓ Succeeded after one retry");
+
+    // Repeated prompts are answered from the cache, without counting against the limit
+    console.log("\n## 3. Repeat the same suggestion");
+    const cached = await objectManager.suggestTitle({ owner: userA });
+    assertEquals(cached, first, "Cached answer should be reused");
+    assertEquals(stub.prompts.length, 1, "The model should be asked once");
+    console.log("✓ Answered from the cache");
+
+    // A new prompt exceeds the user's limit and falls back
+    console.log("\n## 4. Exceed the rate limit of one user");
+    await plain.createAssignedObject({
+      owner: userA,
+      object: object3,
+      title: "Second Object",
+      description: "Description 3",
+    });
+    const limited = await objectManager.suggestTitle({ owner: userA });
+    assertEquals((limited as { fallback?: boolean }).fallback, true);
+    assertEquals(stub.prompts.length, 1, "Limited call shouldn't reach model");
+    console.log(
+      `✗ Limited as expected: ${(limited as { error: string }).error}`,
+    );
+
+    // Other users have their own limit
+    const otherUser = await objectManager.suggestTitle({ owner: userB });
+    assertEquals(otherUser, { titleSuggestion: "Another Object" });
+    console.log("✓ Other user is not limited");
+  } finally {
+    await client.close();
+  }
+});
+
 Deno.test("Action: changeAssignedObjectDescription", async () => {
   const [db, client] = await testDb();
   const objectManager = new ObjectManagerConcept(db);
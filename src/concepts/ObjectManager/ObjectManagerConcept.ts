@@ -1,7 +1,12 @@
 import { Collection, Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
 import { freshID } from "@utils/database.ts";
-import type { GeminiLLM } from "@utils/gemini-llm.ts";
+import {
+  type FallbackMarker,
+  fallbackMarker,
+  type LLMProvider,
+} from "@utils/llm.ts";
+import { renderPrompt } from "@utils/prompts.ts";
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "ObjectManager" + ".";
@@ -33,7 +38,7 @@ export default class ObjectManagerConcept {
 
   constructor(
     private readonly db: Db,
-    private readonly llm?: GeminiLLM,
+    private readonly llm?: LLMProvider,
   ) {
     this.assignedObjects = this.db.collection(PREFIX + "assignedObjects");
   }
@@ -186,11 +191,15 @@ export default class ObjectManagerConcept {
    * Action: Suggests a title based on the user's existing assigned objects.
    * @async
    * @requires There is at least one AssignedObject associated with input owner.
-   * @effects Returns a title String suggested by AI based on titles of AssignedObjects associated with provided owner.
+   * @effects Returns a title String suggested by AI based on titles of AssignedObjects associated with provided owner. If the call to the AI fails, the fallback is marked with an error and a fallback flag.
    */
   async suggestTitle(
     { owner }: { owner: User },
-  ): Promise<{ titleSuggestion: string } | { error: string }> {
+  ): Promise<
+    | { titleSuggestion: string }
+    | { titleSuggestion: string } & FallbackMarker
+    | { error: string }
+  > {
     const assignedObjects = await this.assignedObjects
       .find({ owner })
       .limit(10)
@@ -215,29 +224,25 @@ export default class ObjectManagerConcept {
       .map((title, idx) => `${idx + 1}. ${title}`)
       .join("\n");
 
-    const prompt =
-      `You are helping a user manage their objects. Given the following list of existing object titles they have created:
-
-${titlesList}
-
-Suggest a new, creative, and distinctive title that:
-1. Follows a similar style or pattern to their existing titles
-2. Is unique and won't conflict with their existing titles
-3. Is concise and descriptive
-4. Shows creativity and avoids being too generic
-
-Respond with ONLY the suggested title text, nothing else. Do not include quotation marks or any additional text.`;
+    const prompt = renderPrompt("ObjectManager/suggestTitle", {
+      titles: titlesList,
+    });
 
     try {
-      const suggestion = await this.llm.executeLLM(prompt);
+      const suggestion = await this.llm.executeLLM(prompt.text, {
+        user: owner,
+        concept: "ObjectManager",
+        action: "suggestTitle",
+        promptTemplate: prompt.templateId,
+      });
       const titleSuggestion = suggestion.trim().replace(/['"]/g, "");
       return { titleSuggestion };
     } catch (error) {
       console.error("LLM error:", error);
-      // Fallback to simple suggestion
+      // Fallback to simple suggestion, marked so callers can tell it apart
       const count = await this.assignedObjects.countDocuments({ owner });
       const titleSuggestion = `My Object ${count + 1}`;
-      return { titleSuggestion };
+      return { titleSuggestion, ...fallbackMarker(error) };
     }
   }
 
@@ -0,0 +1,103 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Hono } from "jsr:@hono/hono";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import { StubLLM } from "@utils/stub-llm.ts";
+import EnrichedDAGConcept from "../EnrichedDAG/EnrichedDAGConcept.ts";
+import { streamAction } from "./RequestingConcept.ts";
+
+/**
+ * Posts body to a streaming route of method on concept, and returns the
+ * Server-Sent Events of the response in order.
+ */
+async function postStream(
+  // deno-lint-ignore no-explicit-any
+  concept: any,
+  method: string,
+  body: Record<string, unknown>,
+): Promise<{ event: string; data: string }[]> {
+  const app = new Hono();
+  app.post("/stream", streamAction("Test", concept, method));
+  const response = await app.request("/stream", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  return text.split("\n\n").filter((block) => block !== "").map((block) => {
+    const lines = block.split("\n");
+    return {
+      event: lines.find((l) => l.startsWith("event: "))!.slice(7),
+      data: lines
+        .filter((l) => l.startsWith("data: "))
+        .map((l) => l.slice(6))
+        .join("\n"),
+    };
+  });
+}
+
+Deno.test("Streaming routes send tokens, resets and the result as events", async () => {
+  const [db, client] = await testDb();
+  const answer = JSON.stringify({
+    nodes: ["Variables", "Loops"],
+    edges: [{ source: "Variables", target: "Loops" }],
+  });
+  const dagConcept = new EnrichedDAGConcept(
+    db,
+    new StubLLM({ script: ["Sorry, no JSON", answer] }),
+  );
+
+  try {
+    console.log("\n# Testing Streamed Actions");
+
+    console.log("\n## 1. Stream a generation that is retried once");
+    const events = await postStream(dagConcept, "generateGraphFromTopic", {
+      owner: "user:Alice",
+      graphTitle: "Programming",
+      topic: "Programming basics",
+      maxNodes: 5,
+    });
+    const kinds = events.map((e) => e.event);
+    const reset = kinds.indexOf("reset");
+    assertEquals(reset > 0, true, "Tokens of the first attempt come first");
+    assertEquals(kinds.lastIndexOf("reset"), reset, "There is one retry");
+    assertEquals(
+      events.slice(0, reset).map((e) => e.data).join(""),
+      "Sorry, no JSON",
+    );
+    assertEquals(
+      events.slice(reset + 1, -1).map((e) => e.data).join(""),
+      answer,
+      "Tokens after the reset add up to the kept answer",
+    );
+    console.log(`✓ Received ${events.length - 2} tokens and one reset`);
+
+    const last = events.at(-1)!;
+    assertEquals(last.event, "result");
+    const result = JSON.parse(last.data) as { newNodes: ID[] };
+    assertEquals(result.newNodes.length, 2, "The result is the action's");
+    console.log("✓ The result comes last");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Streaming routes send an error event when the action throws", async () => {
+  console.log("\n# Testing Streamed Failures");
+
+  console.log("\n## 1. Stream an action that throws");
+  const concept = {
+    explode: ({ onToken }: { onToken: (chunk: string) => void }) => {
+      onToken("partial");
+      return Promise.reject(new Error("boom"));
+    },
+  };
+  const events = await postStream(concept, "explode", {});
+  assertEquals(events, [
+    { event: "token", data: "partial" },
+    {
+      event: "error",
+      data: JSON.stringify({ error: "An internal server error occurred." }),
+    },
+  ]);
+  console.log("✗ Failed as expected, after the tokens sent before");
+});
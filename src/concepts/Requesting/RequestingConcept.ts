@@ -1,5 +1,6 @@
-import { Hono } from "jsr:@hono/hono";
+import { type Context, Hono } from "jsr:@hono/hono";
 import { cors } from "jsr:@hono/hono/cors";
+import { streamSSE } from "jsr:@hono/hono/streaming";
 import { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
@@ -176,10 +177,60 @@ export default class RequestingConcept {
   }
 }
 
+/**
+ * Handles a streaming passthrough request by running an action and sending its
+ * output as Server-Sent Events. Actions that accept an onToken callback pass
+ * partial output to it as it is produced, and actions that accept an onRetry
+ * callback call it when that output is discarded, which sends a "reset" event.
+ * All actions send a single "result" event at the end, or an "error" event if
+ * they throw.
+ */
+export function streamAction(
+  conceptName: string,
+  // deno-lint-ignore no-explicit-any
+  concept: any,
+  method: string,
+) {
+  return async (c: Context) => {
+    const body = await c.req.json().catch(() => ({})); // Handle empty body
+    return streamSSE(c, async (stream) => {
+      // Keep events in order, even though the callbacks don't wait for writes
+      let written = Promise.resolve();
+      const send = (event: string, data: string) => {
+        written = written.then(() => stream.writeSSE({ event, data }));
+      };
+      const onToken = (chunk: string) => send("token", chunk);
+      const onRetry = () => send("reset", "");
+      try {
+        const result = await concept[method]({ ...body, onToken, onRetry });
+        await written;
+        await stream.writeSSE({
+          event: "result",
+          data: JSON.stringify(result),
+        });
+      } catch (e) {
+        console.error(`Error in ${conceptName}.${method}:`, e);
+        await written.catch(() => {});
+        await stream.writeSSE({
+          event: "error",
+          data: JSON.stringify({
+            error: "An internal server error occurred.",
+          }),
+        });
+      }
+    });
+  };
+}
+
 /**
  * Starts the Hono web server that listens for incoming requests and pipes them
  * into the Requesting concept instance. Additionally, it allows passthrough
  * requests to concept actions by default. These should be
+ *
+ * Every passthrough action also has a streaming variant under /stream, which
+ * forwards partial AI output as Server-Sent Events while the action runs.
+ * Actions without AI output only send their result, and queries have no
+ * streaming variant.
  * @param concepts The complete instantiated concepts import from "@concepts"
  */
 export function startRequestingServer(
@@ -237,6 +288,13 @@ export function startRequestingServer(
         }
       });
       console.log(msg);
+
+      // Queries return at once, so there is nothing to stream
+      if (method.startsWith("_")) continue;
+
+      const streamRoute =
+        `${REQUESTING_BASE_URL}/stream/${conceptName}/${method}`;
+      app.post(streamRoute, streamAction(conceptName, concept, method));
     }
   }
   const passthroughFile = "./src/concepts/Requesting/passthrough.ts";
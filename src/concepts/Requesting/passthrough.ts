@@ -47,4 +47,34 @@ export const exclusions: Array<string> = [
   // Feel free to delete these example exclusions
   "/api/LikertSurvey/createSurvey",
   "/api/LikertSurvey/addQuestion",
+  // Maintenance actions, run through `deno task migrate` instead
+  "/api/EnrichedDAG/migrateEdgeGraphs",
+  "/api/ResourceList/repairDuplicateIndices",
+  // The audit log is written by the LLM wrapper and read by operators only
+  "/api/LLMAudit/recordCall",
+  "/api/LLMAudit/_getLLMUsage",
+  "/api/LLMAudit/_getLLMUsageByAction",
+  "/api/LLMAudit/_getLLMUsageByPromptTemplate",
+  "/api/LLMAudit/ensureIndexes",
+  // Helpers are methods at runtime too, and would read any graph without checks
+  "/api/EnrichedDAG/ensureEdgeIndex",
+  "/api/EnrichedDAG/inTransaction",
+  "/api/EnrichedDAG/findGraphEdges",
+  "/api/EnrichedDAG/wouldCreateCycle",
+  "/api/EnrichedDAG/loadGraph",
+  "/api/EnrichedDAG/collectReachable",
+  // Helpers are methods at runtime too, and would write to any list without checks
+  "/api/ResourceList/ensureIndexes",
+  "/api/ResourceList/retryIndexes",
+  "/api/ResourceList/hasDuplicateIndices",
+  "/api/ResourceList/inTransaction",
+  "/api/ResourceList/atomically",
+  "/api/ResourceList/setIndices",
+  "/api/ResourceList/loadOrdered",
+  "/api/ResourceList/findAt",
+  "/api/ResourceList/positionOf",
+  "/api/ResourceList/breaksDuplicatePolicy",
+  "/api/ResourceList/removeFromList",
+  "/api/ResourceList/rankAt",
+  "/api/ResourceList/spreadListRanks",
 ];
@@ -760,3 +760,872 @@ Deno.test("Action: appendResource increments list length", async () => {
     await client.close();
   }
 });
+
+Deno.test("Action: insertResourceAt shifts later resources", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Insert Resource at an Index");
+
+    // Setup
+    console.log("\n## 1. Create list with resources A, B");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "Insert Test",
+    })) as { newResourceList: ID };
+    for (const [resource, title] of [[resource1, "A"], [resource2, "B"]]) {
+      await resourceListConcept.appendResource({
+        resourceList: newResourceList,
+        resource: resource as ID,
+        resourceTitle: title,
+      });
+    }
+    console.log("✓ Created list with 2 resources");
+
+    // Insert in the middle, at the front, and at the end
+    console.log("\n## 2. Insert C at 1, D at 0 and E at the end");
+    for (
+      const [index, resource, title] of [[1, resource3, "C"], [
+        0,
+        resource4,
+        "D",
+      ], [4, resource5, "E"]]
+    ) {
+      const result = await resourceListConcept.insertResourceAt({
+        resourceList: newResourceList,
+        index: index as number,
+        resource: resource as ID,
+        resourceTitle: title as string,
+      });
+      assertEquals(
+        "error" in result,
+        false,
+        `Inserting ${title} should succeed`,
+      );
+    }
+    const resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["D", "A", "C", "B", "E"]);
+    assertEquals(resources.map((r) => r.index), [0, 1, 2, 3, 4]);
+    const list = await resourceListConcept._getResourceList({
+      owner: userA,
+      listTitle: "Insert Test",
+    });
+    assertEquals(list?.length, 5, "Length should be 5");
+    console.log("✓ Order is D, A, C, B, E");
+
+    // Out of bounds
+    console.log("\n## 3. Insert past the end");
+    const outOfBounds = await resourceListConcept.insertResourceAt({
+      resourceList: newResourceList,
+      index: 6,
+      resource: resource1,
+      resourceTitle: "F",
+    });
+    assertEquals("error" in outOfBounds, true, "Index 6 is out of bounds");
+    console.log("✗ Rejected as expected");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: moveResource keeps the order of the other resources", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Move Resource");
+
+    // Setup
+    console.log("\n## 1. Create list with resources A to E");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "Move Test",
+    })) as { newResourceList: ID };
+    for (const title of ["A", "B", "C", "D", "E"]) {
+      await resourceListConcept.appendResource({
+        resourceList: newResourceList,
+        resource: `resource:${title}` as ID,
+        resourceTitle: title,
+      });
+    }
+    const titles = async () =>
+      (await resourceListConcept._getListResources({
+        resourceList: newResourceList,
+      })).map((r) => r.title);
+    console.log("✓ Created list with 5 resources");
+
+    // Move backwards
+    console.log("\n## 2. Move the last resource to index 1");
+    const backward = await resourceListConcept.moveResource({
+      resourceList: newResourceList,
+      fromIndex: 4,
+      toIndex: 1,
+    });
+    assertEquals("error" in backward, false, "Moving should succeed");
+    assertEquals(await titles(), ["A", "E", "B", "C", "D"]);
+    console.log("✓ Order is A, E, B, C, D");
+
+    // Move forwards
+    console.log("\n## 3. Move the first resource to index 3");
+    await resourceListConcept.moveResource({
+      resourceList: newResourceList,
+      fromIndex: 0,
+      toIndex: 3,
+    });
+    assertEquals(await titles(), ["E", "B", "C", "A", "D"]);
+    const resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.index), [0, 1, 2, 3, 4]);
+    console.log("✓ Order is E, B, C, A, D");
+
+    // Out of bounds
+    console.log("\n## 4. Move to an invalid index");
+    const outOfBounds = await resourceListConcept.moveResource({
+      resourceList: newResourceList,
+      fromIndex: 0,
+      toIndex: 5,
+    });
+    assertEquals("error" in outOfBounds, true, "Index 5 is out of bounds");
+    console.log("✗ Rejected as expected");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: reorderResources applies a permutation", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Reorder Resources");
+
+    // Setup
+    console.log("\n## 1. Create list with resources A to D");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "Reorder Test",
+    })) as { newResourceList: ID };
+    for (const title of ["A", "B", "C", "D"]) {
+      await resourceListConcept.appendResource({
+        resourceList: newResourceList,
+        resource: `resource:${title}` as ID,
+        resourceTitle: title,
+      });
+    }
+    console.log("✓ Created list with 4 resources");
+
+    // Invalid permutations
+    console.log("\n## 2. Reject invalid orders");
+    for (const order of [[0, 1, 2], [0, 1, 1, 2], [0, 1, 2, 4]]) {
+      const result = await resourceListConcept.reorderResources({
+        resourceList: newResourceList,
+        order,
+      });
+      assertEquals("error" in result, true, `[${order}] should be rejected`);
+    }
+    console.log("✗ Rejected short, repeated and out-of-bounds orders");
+
+    // Valid permutation
+    console.log("\n## 3. Reorder to D, B, A, C");
+    const result = await resourceListConcept.reorderResources({
+      resourceList: newResourceList,
+      order: [3, 1, 0, 2],
+    });
+    assertEquals("error" in result, false, "Reordering should succeed");
+    const resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["D", "B", "A", "C"]);
+    assertEquals(resources.map((r) => r.index), [0, 1, 2, 3]);
+    console.log("✓ Order is D, B, A, C");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: concurrent edits keep indices unique and contiguous", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Concurrent Edits");
+
+    // Setup
+    console.log("\n## 1. Append five resources concurrently");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "Concurrency Test",
+    })) as { newResourceList: ID };
+    const results = await Promise.all(
+      ["A", "B", "C", "D", "E"].map((title) =>
+        resourceListConcept.appendResource({
+          resourceList: newResourceList,
+          resource: `resource:${title}` as ID,
+          resourceTitle: title,
+        })
+      ),
+    );
+    for (const result of results) {
+      assertEquals("error" in result, false, "Appending should succeed");
+    }
+    let resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.index), [0, 1, 2, 3, 4]);
+    console.log("✓ Resources got indices 0 to 4");
+
+    // Shifts through the unique index
+    console.log("\n## 2. Insert, move and delete across the unique index");
+    await resourceListConcept.insertResourceAt({
+      resourceList: newResourceList,
+      index: 0,
+      resource: "resource:F" as ID,
+      resourceTitle: "F",
+    });
+    await resourceListConcept.moveResource({
+      resourceList: newResourceList,
+      fromIndex: 0,
+      toIndex: 5,
+    });
+    await resourceListConcept.deleteResource({
+      resourceList: newResourceList,
+      index: 0,
+    });
+    resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.index), [0, 1, 2, 3, 4]);
+    assertEquals(resources.length, 5);
+    console.log("✓ Indices stayed contiguous");
+
+    // Duplicate index
+    console.log("\n## 3. Reject a second resource at a taken index");
+    let rejected = false;
+    try {
+      await resourceListConcept.indexedResources.insertOne({
+        _id: "indexedResource:duplicate" as ID,
+        resource: resource1,
+        title: "Duplicate",
+        list: newResourceList,
+        index: 2,
+      });
+    } catch {
+      rejected = true;
+    }
+    assertEquals(rejected, true, "The unique index should reject duplicates");
+    console.log("✗ Duplicate (list, index) was rejected");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: repairResourceList recomputes contiguous indices", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Repair Resource List");
+
+    // Setup
+    console.log("\n## 1. Create list with gaps in its indices");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "Repair Test",
+    })) as { newResourceList: ID };
+    for (const title of ["A", "B", "C"]) {
+      await resourceListConcept.appendResource({
+        resourceList: newResourceList,
+        resource: `resource:${title}` as ID,
+        resourceTitle: title,
+      });
+    }
+    // Simulate a write that was interrupted halfway
+    await resourceListConcept.indexedResources.updateOne(
+      { list: newResourceList, index: 1 },
+      { $set: { index: 7 } },
+    );
+    await resourceListConcept.resourceLists.updateOne(
+      { _id: newResourceList },
+      { $set: { length: 9 } },
+    );
+    console.log("✓ Moved B to index 7 and broke the length");
+
+    // Repair
+    console.log("\n## 2. Repair the list");
+    const result = await resourceListConcept.repairResourceList({
+      resourceList: newResourceList,
+    });
+    assertEquals("error" in result, false, "Repair should succeed");
+    assertEquals(
+      (result as { reindexedResources: number }).reindexedResources,
+      2,
+    );
+    const resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["A", "C", "B"]);
+    assertEquals(resources.map((r) => r.index), [0, 1, 2]);
+    const list = await resourceListConcept._getResourceList({
+      owner: userA,
+      listTitle: "Repair Test",
+    });
+    assertEquals(list?.length, 3);
+    console.log("✓ Indices are 0 to 2 and length is 3");
+
+    // Missing list
+    console.log("\n## 3. Repair a missing list");
+    const missing = await resourceListConcept.repairResourceList({
+      resourceList: "list:missing" as ID,
+    });
+    assertEquals("error" in missing, true, "Missing list should fail");
+    console.log("✗ Missing list was rejected");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: edits of lists with duplicate indices fail until they are repaired", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Edits of Lists With Duplicate Indices");
+
+    // Setup
+    console.log("\n## 1. Create list holding two resources at index 0");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "Duplicate Indices",
+    })) as { newResourceList: ID };
+    await resourceListConcept.indexedResources.insertMany([
+      { _id: "indexedResource:A" as ID, resource: resource1, title: "A" },
+      { _id: "indexedResource:B" as ID, resource: resource2, title: "B" },
+    ].map((doc) => ({ ...doc, list: newResourceList, index: 0 })));
+    await resourceListConcept.resourceLists.updateOne(
+      { _id: newResourceList },
+      { $set: { length: 2 } },
+    );
+    console.log("✓ Stored A and B at index 0");
+
+    // Edit
+    console.log("\n## 2. Append to the broken list");
+    const rejected = await resourceListConcept.appendResource({
+      resourceList: newResourceList,
+      resource: resource3,
+      resourceTitle: "C",
+    });
+    assertEquals("error" in rejected, true, "Edits need the unique index");
+    console.log("✗ Append was rejected until the list is repaired");
+
+    // Other lists
+    console.log("\n## 3. Append to another list");
+    const { newResourceList: healthyList } = (await resourceListConcept
+      .createResourceList({
+        owner: userA,
+        listTitle: "Healthy",
+      })) as { newResourceList: ID };
+    const healthy = await resourceListConcept.appendResource({
+      resourceList: healthyList,
+      resource: resource3,
+      resourceTitle: "C",
+    });
+    assertEquals("error" in healthy, false, "Other lists can be edited");
+    console.log("✓ Lists without duplicate indices can still be edited");
+
+    // Repair
+    console.log("\n## 4. Repair all broken lists, then append again");
+    const repaired = await resourceListConcept.repairDuplicateIndices();
+    assertEquals(repaired, { repairedLists: 1 });
+    assertEquals(
+      await resourceListConcept.repairDuplicateIndices(),
+      { repairedLists: 0 },
+      "Repairing is idempotent",
+    );
+    const appended = await resourceListConcept.appendResource({
+      resourceList: newResourceList,
+      resource: resource3,
+      resourceTitle: "C",
+    });
+    assertEquals("error" in appended, false, "Append should succeed now");
+    const resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["A", "B", "C"]);
+    assertEquals(resources.map((r) => r.index), [0, 1, 2]);
+    console.log("✓ Indices are 0 to 2 after the repair");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: lists ordered by rank keep positions with single writes", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Lists Ordered By Rank");
+
+    // Setup
+    console.log("\n## 1. Create list ordered by rank with resources A to C");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "Rank Test",
+      ordering: "rank",
+    })) as { newResourceList: ID };
+    for (const title of ["A", "B", "C"]) {
+      await resourceListConcept.appendResource({
+        resourceList: newResourceList,
+        resource: `resource:${title}` as ID,
+        resourceTitle: title,
+      });
+    }
+    const ranksBefore = await resourceListConcept.indexedResources
+      .find({ list: newResourceList })
+      .toArray();
+    console.log("✓ Created list with 3 resources");
+
+    // Insert
+    console.log("\n## 2. Insert D at position 1");
+    await resourceListConcept.insertResourceAt({
+      resourceList: newResourceList,
+      index: 1,
+      resource: "resource:D" as ID,
+      resourceTitle: "D",
+    });
+    let resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["A", "D", "B", "C"]);
+    assertEquals(resources.map((r) => r.index), [0, 1, 2, 3]);
+    for (const before of ranksBefore) {
+      const after = resources.find((r) => r._id === before._id);
+      assertEquals(after?.rank, before.rank, "Other ranks should not change");
+    }
+    console.log("✓ Order is A, D, B, C and no other rank changed");
+
+    // Access by position
+    console.log("\n## 3. Access the resource at position 2");
+    const accessed = await resourceListConcept.accessResource({
+      resourceList: newResourceList,
+      index: 2,
+    });
+    assertEquals(
+      (accessed as { accessedIndexedResource: ID }).accessedIndexedResource,
+      resources[2]._id,
+    );
+    console.log("✓ Position 2 holds B");
+
+    // Move, swap and delete
+    console.log(
+      "\n## 4. Move A to the end, swap the first two, delete position 1",
+    );
+    await resourceListConcept.moveResource({
+      resourceList: newResourceList,
+      fromIndex: 0,
+      toIndex: 3,
+    });
+    resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["D", "B", "C", "A"]);
+    await resourceListConcept.swapResources({
+      resourceList: newResourceList,
+      index1: 0,
+      index2: 1,
+    });
+    await resourceListConcept.deleteResource({
+      resourceList: newResourceList,
+      index: 1,
+    });
+    resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["B", "C", "A"]);
+    assertEquals(resources.map((r) => r.index), [0, 1, 2]);
+    console.log("✓ Order is B, C, A");
+
+    // Reorder
+    console.log("\n## 5. Reorder to A, B, C");
+    const result = await resourceListConcept.reorderResources({
+      resourceList: newResourceList,
+      order: [2, 0, 1],
+    });
+    assertEquals("error" in result, false, "Reordering should succeed");
+    resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["A", "B", "C"]);
+    console.log("✓ Order is A, B, C");
+
+    // Equal ranks
+    console.log("\n## 6. Swap two resources sharing a rank");
+    await resourceListConcept.indexedResources.updateOne(
+      { _id: resources[1]._id },
+      { $set: { rank: resources[0].rank } },
+    );
+    // Resources sharing a rank are ordered by ID
+    const [first, second] = (await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    })).map((r) => r.title);
+    await resourceListConcept.swapResources({
+      resourceList: newResourceList,
+      index1: 0,
+      index2: 1,
+    });
+    resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), [second, first, "C"]);
+    assertEquals(
+      new Set(resources.map((r) => r.rank)).size,
+      3,
+      "Ranks should be distinct again",
+    );
+    console.log(`✓ Order is ${second}, ${first}, C`);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: setResourceListOrdering converts between orderings", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Set Resource List Ordering");
+
+    // Setup
+    console.log("\n## 1. Create list ordered by index with resources A to C");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "Ordering Test",
+    })) as { newResourceList: ID };
+    for (const title of ["A", "B", "C"]) {
+      await resourceListConcept.appendResource({
+        resourceList: newResourceList,
+        resource: `resource:${title}` as ID,
+        resourceTitle: title,
+      });
+    }
+    await resourceListConcept.swapResources({
+      resourceList: newResourceList,
+      index1: 0,
+      index2: 2,
+    });
+    console.log("✓ Created list C, B, A");
+
+    // To rank
+    console.log("\n## 2. Switch to rank ordering");
+    let result = await resourceListConcept.setResourceListOrdering({
+      resourceList: newResourceList,
+      ordering: "rank",
+    });
+    assertEquals("error" in result, false, "Switching should succeed");
+    const stored = await resourceListConcept.indexedResources
+      .find({ list: newResourceList })
+      .toArray();
+    assertEquals(stored.every((r) => r.index === undefined), true);
+    assertEquals(stored.every((r) => typeof r.rank === "string"), true);
+    let resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["C", "B", "A"]);
+    console.log("✓ Resources have ranks and kept their order");
+
+    // Back to index
+    console.log("\n## 3. Switch back to index ordering");
+    await resourceListConcept.appendResource({
+      resourceList: newResourceList,
+      resource: "resource:D" as ID,
+      resourceTitle: "D",
+    });
+    result = await resourceListConcept.setResourceListOrdering({
+      resourceList: newResourceList,
+      ordering: "index",
+    });
+    assertEquals("error" in result, false, "Switching back should succeed");
+    resources = await resourceListConcept._getListResources({
+      resourceList: newResourceList,
+    });
+    assertEquals(resources.map((r) => r.title), ["C", "B", "A", "D"]);
+    assertEquals(resources.map((r) => r.index), [0, 1, 2, 3]);
+    assertEquals(resources.every((r) => r.rank === undefined), true);
+    console.log("✓ Resources have indices 0 to 3 again");
+
+    // Invalid ordering
+    console.log("\n## 4. Reject an unknown ordering");
+    result = await resourceListConcept.setResourceListOrdering({
+      resourceList: newResourceList,
+      ordering: "alphabetical" as "index",
+    });
+    assertEquals("error" in result, true, "Unknown ordering should fail");
+    console.log("✗ Unknown ordering was rejected");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: deleteIndexedResource removes a resource from every list", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Delete Indexed Resource");
+
+    // Setup
+    console.log(
+      "\n## 1. Add the same resource to a list by index and a list by rank",
+    );
+    const lists: ID[] = [];
+    for (const ordering of ["index", "rank"] as const) {
+      const { newResourceList } =
+        (await resourceListConcept.createResourceList({
+          owner: userA,
+          listTitle: `Shared ${ordering}`,
+          ordering,
+        })) as { newResourceList: ID };
+      for (const resource of [resource1, resource2, resource3]) {
+        await resourceListConcept.appendResource({
+          resourceList: newResourceList,
+          resource,
+          resourceTitle: resource,
+        });
+      }
+      lists.push(newResourceList);
+    }
+    console.log("✓ Created two lists holding Article-2 at index 1");
+
+    // Find the resource
+    console.log("\n## 2. Find Article-2 in both lists");
+    const found = await resourceListConcept._findResourceInLists({
+      resource: resource2,
+    });
+    assertEquals(found.length, 2);
+    assertEquals(
+      found.map((f) => f.resourceList).sort(),
+      [...lists].sort(),
+    );
+    assertEquals(found.map((f) => f.index), [1, 1]);
+    console.log("✓ Found Article-2 at index 1 in both lists");
+
+    // Delete it everywhere
+    console.log("\n## 3. Delete every indexed Article-2");
+    for (const { indexedResource } of found) {
+      const result = await resourceListConcept.deleteIndexedResource({
+        indexedResource,
+      });
+      assertEquals("error" in result, false, "Deleting should succeed");
+    }
+    for (const list of lists) {
+      const resources = await resourceListConcept._getListResources({
+        resourceList: list,
+      });
+      assertEquals(resources.map((r) => r.resource), [resource1, resource3]);
+      assertEquals(resources.map((r) => r.index), [0, 1]);
+    }
+    const lengths = (await resourceListConcept._getUserResourceLists({
+      owner: userA,
+    })).map((l) => l.length);
+    assertEquals(lengths, [2, 2]);
+    console.log("✓ Both lists hold Article-1 and Article-3 at indices 0 and 1");
+
+    // Deleted resource
+    console.log("\n## 4. Delete an indexed resource twice");
+    const again = await resourceListConcept.deleteIndexedResource({
+      indexedResource: found[0].indexedResource,
+    });
+    assertEquals("error" in again, true, "Deleting twice should fail");
+    console.log("✗ Second deletion was rejected");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Query: _getIndexedResource and _findByTitle report positions", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Lookups By Identity And Title");
+
+    // Setup
+    console.log("\n## 1. Create list ordered by rank with a repeated title");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userB,
+      listTitle: "Lookup Test",
+      ordering: "rank",
+    })) as { newResourceList: ID };
+    const ids: ID[] = [];
+    for (const title of ["Intro", "Basics", "Intro"]) {
+      const { newIndexedResource } = (await resourceListConcept.appendResource({
+        resourceList: newResourceList,
+        resource: `resource:${ids.length}` as ID,
+        resourceTitle: title,
+      })) as { newIndexedResource: ID };
+      ids.push(newIndexedResource);
+    }
+    console.log("✓ Created list Intro, Basics, Intro");
+
+    // By identity
+    console.log("\n## 2. Get the last resource by identity");
+    const indexed = await resourceListConcept._getIndexedResource({
+      indexedResource: ids[2],
+    });
+    assertExists(indexed);
+    assertEquals(indexed.index, 2);
+    assertEquals(
+      await resourceListConcept._getIndexedResource({
+        indexedResource: "indexedResource:missing" as ID,
+      }),
+      null,
+    );
+    console.log("✓ Resource is at position 2, missing resource is null");
+
+    // By title
+    console.log("\n## 3. Find resources titled Intro");
+    const intros = await resourceListConcept._findByTitle({
+      resourceList: newResourceList,
+      title: "Intro",
+    });
+    assertEquals(intros.map((r) => r._id), [ids[0], ids[2]]);
+    assertEquals(intros.map((r) => r.index), [0, 2]);
+    console.log("✓ Found Intro at positions 0 and 2");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: lists without duplicates reject repeated resources", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Duplicate Policy");
+
+    // Setup
+    console.log("\n## 1. Create list that doesn't allow duplicates");
+    const { newResourceList } = (await resourceListConcept.createResourceList({
+      owner: userA,
+      listTitle: "No Duplicates",
+      allowDuplicates: false,
+    })) as { newResourceList: ID };
+    const first = await resourceListConcept.appendResource({
+      resourceList: newResourceList,
+      resource: resource1,
+      resourceTitle: "Article 1",
+    });
+    assertEquals("error" in first, false, "First append should succeed");
+    console.log("✓ Appended Article-1");
+
+    // Repeats
+    console.log("\n## 2. Append and insert Article-1 again");
+    const appended = await resourceListConcept.appendResource({
+      resourceList: newResourceList,
+      resource: resource1,
+      resourceTitle: "Article 1 again",
+    });
+    assertEquals("error" in appended, true, "Repeated append should fail");
+    const inserted = await resourceListConcept.insertResourceAt({
+      resourceList: newResourceList,
+      index: 0,
+      resource: resource1,
+      resourceTitle: "Article 1 again",
+    });
+    assertEquals("error" in inserted, true, "Repeated insert should fail");
+    const list = await resourceListConcept._getResourceList({
+      owner: userA,
+      listTitle: "No Duplicates",
+    });
+    assertEquals(list?.length, 1);
+    console.log("✗ Both were rejected and the length stayed 1");
+
+    // Policy change
+    console.log("\n## 3. Allow duplicates, then try to forbid them again");
+    await resourceListConcept.setAllowDuplicates({
+      resourceList: newResourceList,
+      allowDuplicates: true,
+    });
+    const allowed = await resourceListConcept.appendResource({
+      resourceList: newResourceList,
+      resource: resource1,
+      resourceTitle: "Article 1 again",
+    });
+    assertEquals("error" in allowed, false, "Append should now succeed");
+    const forbidden = await resourceListConcept.setAllowDuplicates({
+      resourceList: newResourceList,
+      allowDuplicates: false,
+    });
+    assertEquals("error" in forbidden, true, "List holds duplicates");
+    console.log("✗ Duplicates can't be forbidden while the list holds some");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: dedupeResourceList keeps the first or last repeat", async () => {
+  const [db, client] = await testDb();
+  const resourceListConcept = new ResourceListConcept(db);
+
+  try {
+    console.log("\n# Testing Dedupe Resource List");
+
+    for (
+      const [keep, expected] of [
+        ["first", ["1a", "2a", "3"]],
+        ["last", ["3", "2b", "1c"]],
+      ] as const
+    ) {
+      // Setup
+      console.log(`\n## Keep ${keep}: create list 1a, 2a, 3, 1b, 2b, 1c`);
+      const { newResourceList } =
+        (await resourceListConcept.createResourceList({
+          owner: userA,
+          listTitle: `Dedupe ${keep}`,
+        })) as { newResourceList: ID };
+      for (
+        const [resource, title] of [
+          [resource1, "1a"],
+          [resource2, "2a"],
+          [resource3, "3"],
+          [resource1, "1b"],
+          [resource2, "2b"],
+          [resource1, "1c"],
+        ] as [ID, string][]
+      ) {
+        await resourceListConcept.appendResource({
+          resourceList: newResourceList,
+          resource,
+          resourceTitle: title,
+        });
+      }
+
+      // Dedupe
+      const result = await resourceListConcept.dedupeResourceList({
+        resourceList: newResourceList,
+        keep,
+      });
+      assertEquals("error" in result, false, "Dedupe should succeed");
+      assertEquals(
+        (result as { removedResources: number }).removedResources,
+        3,
+      );
+      const resources = await resourceListConcept._getListResources({
+        resourceList: newResourceList,
+      });
+      assertEquals(resources.map((r) => r.title), [...expected]);
+      assertEquals(resources.map((r) => r.index), [0, 1, 2]);
+      const list = await resourceListConcept._getResourceList({
+        owner: userA,
+        listTitle: `Dedupe ${keep}`,
+      });
+      assertEquals(list?.length, 3);
+      console.log(`✓ Kept ${expected.join(", ")} at indices 0 to 2`);
+    }
+  } finally {
+    await client.close();
+  }
+});
@@ -1,10 +1,14 @@
-import { Collection, Db } from "npm:mongodb";
+import { ClientSession, Collection, Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import { clientOf, freshID } from "@utils/database.ts";
+import { rankBetween, spreadRanks } from "@utils/rank.ts";
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "ResourceList" + ".";
 
+// How often an action is run again after a concurrent edit took the index it wrote
+const MAX_ATTEMPTS = 3;
+
 // Generic types for the concept's external dependencies
 type User = ID;
 type Resource = ID;
@@ -13,25 +17,36 @@ type Resource = ID;
 type ResourceList = ID;
 type IndexedResource = ID;
 
+// How a list keeps its order: contiguous indices, or fractional rank keys where
+// inserts, moves and deletes write a single IndexedResource
+type Ordering = "index" | "rank";
+
 /**
- * State: A set of ResourceLists with title String, owner User, and length Number.
+ * State: A set of ResourceLists with title String, owner User, length Number, ordering Ordering, and allowDuplicates Flag.
  */
 interface ResourceListDoc {
   _id: ResourceList;
   owner: User;
   title: string;
   length: number;
+  // Lists created before orderings existed have none and use indices
+  ordering?: Ordering;
+  // Lists created before this policy existed have none and allow duplicates
+  allowDuplicates?: boolean;
 }
 
 /**
- * State: A set of IndexedResources with resource Resource, title String, list ResourceList, and index Number.
+ * State: A set of IndexedResources with resource Resource, title String, list ResourceList, and either index Number or rank String.
  */
 interface IndexedResourceDoc {
   _id: IndexedResource;
   resource: Resource;
   title: string;
   list: ResourceList;
-  index: number;
+  // Set in lists ordered by index, and filled in by the queries for lists ordered by rank
+  index?: number;
+  // Set in lists ordered by rank
+  rank?: string;
 }
 
 /**
@@ -42,19 +57,337 @@ export default class ResourceListConcept {
   resourceLists: Collection<ResourceListDoc>;
   indexedResources: Collection<IndexedResourceDoc>;
 
+  private indexesReady?: Promise<boolean>;
+
   constructor(private readonly db: Db) {
     this.resourceLists = this.db.collection(PREFIX + "resourceLists");
     this.indexedResources = this.db.collection(PREFIX + "indexedResources");
   }
 
+  /**
+   * Helper: Creates the unique (list, index) index and the (list, rank) index once, and returns
+   * whether they exist. Creation fails while any list holds duplicate indices, and is tried again
+   * once a list has been repaired.
+   */
+  private ensureIndexes(): Promise<boolean> {
+    this.indexesReady ??= Promise.all([
+      // Resources of lists ordered by rank have no index
+      this.indexedResources.createIndex({ list: 1, index: 1 }, {
+        unique: true,
+        partialFilterExpression: { index: { $exists: true } },
+      }),
+      this.indexedResources.createIndex({ list: 1, rank: 1, _id: 1 }),
+    ])
+      .then(() => true, (error) => {
+        console.error(
+          "Could not create the unique (list, index) index, run `deno task migrate` to repair lists with duplicate indices:",
+          error,
+        );
+        return false;
+      });
+    return this.indexesReady;
+  }
+
+  /**
+   * Helper: Runs an action's reads and writes in a single transaction, so concurrent edits of the
+   * same list cannot interleave and an interrupted action leaves no partial writes.
+   */
+  private async inTransaction<T>(
+    action: (session: ClientSession) => Promise<T>,
+  ): Promise<T> {
+    const session = clientOf(this.db).startSession();
+    try {
+      let result!: T;
+      await session.withTransaction(async () => {
+        result = await action(session);
+      });
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Helper: Creates the indexes again if creating them failed before.
+   */
+  private async retryIndexes(): Promise<void> {
+    if (!await this.indexesReady) {
+      this.indexesReady = undefined;
+    }
+    await this.ensureIndexes();
+  }
+
+  /**
+   * Helper: Checks whether a list holds several resources at one index, which only lists edited
+   * before the unique (list, index) index existed can.
+   */
+  private async hasDuplicateIndices(
+    resourceList: ResourceList,
+  ): Promise<boolean> {
+    const filter = { list: resourceList, index: { $exists: true } };
+    const indices = await this.indexedResources.distinct("index", filter);
+    return indices.length <
+      await this.indexedResources.countDocuments(filter);
+  }
+
+  /**
+   * Helper: Runs an action in a transaction, running it again if a concurrent edit took an index it
+   * writes. Actions that address resources by index pass their list, and are refused while the
+   * unique (list, index) index is missing and that list holds duplicate indices.
+   */
+  private async atomically<T>(
+    action: (session: ClientSession) => Promise<T>,
+    resourceList?: ResourceList,
+  ): Promise<T | { error: string }> {
+    if (
+      !await this.ensureIndexes() && resourceList !== undefined &&
+      await this.hasDuplicateIndices(resourceList)
+    ) {
+      return {
+        error:
+          "The list holds several resources at one index, run repairResourceList on it",
+      };
+    }
+
+    for (let attempt = 1;; attempt++) {
+      try {
+        return await this.inTransaction(action);
+      } catch (error) {
+        // Duplicate key errors aren't transient transaction errors, so withTransaction doesn't retry them
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+        if (attempt === MAX_ATTEMPTS) {
+          return { error: "The list is being edited concurrently, try again" };
+        }
+      }
+    }
+  }
+
+  /**
+   * Helper: Moves IndexedResources to new indices. Every resource is first parked at a distinct
+   * negative index, so no two resources of a list share an index after any single write.
+   */
+  private async setIndices(
+    moves: { _id: IndexedResource; index: number }[],
+    session?: ClientSession,
+  ): Promise<void> {
+    if (moves.length === 0) {
+      return;
+    }
+
+    await this.indexedResources.bulkWrite(
+      moves.map(({ _id, index }) => ({
+        updateOne: {
+          filter: { _id },
+          update: { $set: { index: -(index + 1) } },
+        },
+      })),
+      { session },
+    );
+    await this.indexedResources.bulkWrite(
+      moves.map(({ _id, index }) => ({
+        updateOne: {
+          filter: { _id },
+          update: { $set: { index } },
+        },
+      })),
+      { session },
+    );
+  }
+
+  /**
+   * Helper: Loads the IndexedResources of a list in order. Resources of lists ordered by rank get
+   * their position as index.
+   */
+  private async loadOrdered(
+    list: ResourceListDoc,
+    session?: ClientSession,
+  ): Promise<IndexedResourceDoc[]> {
+    if (list.ordering !== "rank") {
+      return await this.indexedResources
+        .find({ list: list._id }, { session })
+        .sort({ index: 1 })
+        .toArray();
+    }
+
+    const resources = await this.indexedResources
+      .find({ list: list._id }, { session })
+      .sort({ rank: 1, _id: 1 })
+      .toArray();
+    return resources.map((r, index) => ({ ...r, index }));
+  }
+
+  /**
+   * Helper: Finds the IndexedResource at a position of a list, whichever its ordering.
+   */
+  private async findAt(
+    list: ResourceListDoc,
+    index: number,
+    session?: ClientSession,
+  ): Promise<IndexedResourceDoc | null> {
+    if (list.ordering !== "rank") {
+      return await this.indexedResources.findOne({ list: list._id, index }, {
+        session,
+      });
+    }
+
+    const [found] = await this.indexedResources
+      .find({ list: list._id }, { session })
+      .sort({ rank: 1, _id: 1 })
+      .skip(index)
+      .limit(1)
+      .toArray();
+    return found ?? null;
+  }
+
+  /**
+   * Helper: Finds the position of an IndexedResource in its list, whichever the list's ordering.
+   */
+  private async positionOf(
+    list: ResourceListDoc,
+    resource: IndexedResourceDoc,
+    session?: ClientSession,
+  ): Promise<number> {
+    if (list.ordering !== "rank") {
+      return resource.index!;
+    }
+
+    return await this.indexedResources.countDocuments({
+      list: list._id,
+      $or: [
+        { rank: { $lt: resource.rank! } },
+        { rank: resource.rank!, _id: { $lt: resource._id } },
+      ],
+    }, { session });
+  }
+
+  /**
+   * Helper: Checks whether adding a resource to a list would break the list's duplicate policy.
+   */
+  private async breaksDuplicatePolicy(
+    list: ResourceListDoc,
+    resource: Resource,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    if (list.allowDuplicates !== false) {
+      return false;
+    }
+
+    const existing = await this.indexedResources.findOne({
+      list: list._id,
+      resource,
+    }, { session });
+    return existing !== null;
+  }
+
+  /**
+   * Helper: Deletes an IndexedResource and closes the gap it leaves in its list.
+   */
+  private async removeFromList(
+    list: ResourceListDoc,
+    removed: IndexedResourceDoc,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.indexedResources.deleteOne({ _id: removed._id }, { session });
+
+    // Decrement the indices of all resources after the deleted one, ranks need no update
+    if (list.ordering !== "rank") {
+      const later = await this.indexedResources
+        .find({ list: list._id, index: { $gt: removed.index! } }, { session })
+        .toArray();
+      await this.setIndices(
+        later.map((r) => ({ _id: r._id, index: r.index! - 1 })),
+        session,
+      );
+    }
+
+    // Decrement the list length
+    await this.resourceLists.updateOne(
+      { _id: list._id },
+      { $inc: { length: -1 } },
+      { session },
+    );
+  }
+
+  /**
+   * Helper: Returns a rank that places a resource at a position of a list ordered by rank, leaving
+   * out the excluded resource. If the neighbours share a rank, the whole list is ranked afresh first.
+   */
+  private async rankAt(
+    list: ResourceListDoc,
+    index: number,
+    session?: ClientSession,
+    excluded?: IndexedResource,
+  ): Promise<string> {
+    const neighbours = async () =>
+      await this.indexedResources
+        .find(
+          excluded
+            ? { list: list._id, _id: { $ne: excluded } }
+            : { list: list._id },
+          { session },
+        )
+        .sort({ rank: 1, _id: 1 })
+        .skip(Math.max(index - 1, 0))
+        .limit(index === 0 ? 1 : 2)
+        .toArray();
+
+    let found = await neighbours();
+    let before = index === 0 ? undefined : found[0]?.rank;
+    let after = index === 0 ? found[0]?.rank : found[1]?.rank;
+    if (before !== undefined && after !== undefined && before >= after) {
+      // Concurrent inserts can pick the same rank, which only a fresh ranking separates
+      await this.spreadListRanks(list, session);
+      found = await neighbours();
+      before = index === 0 ? undefined : found[0]?.rank;
+      after = index === 0 ? found[0]?.rank : found[1]?.rank;
+    }
+
+    return rankBetween(before, after);
+  }
+
+  /**
+   * Helper: Gives the resources of a list ordered by rank evenly spread ranks, keeping their
+   * order. Returns how many resources got a new rank.
+   */
+  private async spreadListRanks(
+    list: ResourceListDoc,
+    session?: ClientSession,
+  ): Promise<number> {
+    const resources = await this.loadOrdered(list, session);
+    const ranks = spreadRanks(resources.length);
+    const updates = resources
+      .filter((r, i) => r.rank !== ranks[i])
+      .map((r) => ({
+        updateOne: {
+          filter: { _id: r._id },
+          update: { $set: { rank: ranks[r.index!] } },
+        },
+      }));
+    if (updates.length > 0) {
+      await this.indexedResources.bulkWrite(updates, { session });
+    }
+    return updates.length;
+  }
+
   /**
    * Action: Creates a new resource list.
    * @requires There are no ResourceLists with the same owner User and listTitle String in the set of ResourceLists.
-   * @effects Adds new ResourceList with provided owner and listTitle, with length set to 0. Returns the new ResourceList.
+   * @effects Adds new ResourceList with provided owner and listTitle, with length set to 0, ordering set to the provided ordering ("index" if not provided), and allowDuplicates set to the provided flag (true if not provided). Returns the new ResourceList.
    */
   async createResourceList(
-    { owner, listTitle }: { owner: User; listTitle: string },
+    { owner, listTitle, ordering = "index", allowDuplicates = true }: {
+      owner: User;
+      listTitle: string;
+      ordering?: Ordering;
+      allowDuplicates?: boolean;
+    },
   ): Promise<{ newResourceList: ResourceList } | { error: string }> {
+    if (ordering !== "index" && ordering !== "rank") {
+      return { error: 'Ordering must be "index" or "rank"' };
+    }
+
     // Check for duplicate list
     const existing = await this.resourceLists.findOne({
       owner,
@@ -70,6 +403,8 @@ export default class ResourceListConcept {
       owner,
       title: listTitle,
       length: 0,
+      ordering,
+      allowDuplicates,
     });
 
     return { newResourceList: listId as ResourceList };
@@ -116,7 +451,7 @@ export default class ResourceListConcept {
 
   /**
    * Action: Appends a resource to a list.
-   * @requires ResourceList is in the set of ResourceLists.
+   * @requires ResourceList is in the set of ResourceLists. If the ResourceList doesn't allow duplicates, resource is not in it yet.
    * @effects Adds a new IndexedResource with the provided resource, resourceTitle, and index set to the length of the ResourceList. Increments the length of the ResourceList by 1.
    */
   async appendResource(
@@ -126,29 +461,53 @@ export default class ResourceListConcept {
       resourceTitle: string;
     },
   ): Promise<{ newIndexedResource: IndexedResource } | { error: string }> {
-    // Check list exists
-    const list = await this.resourceLists.findOne({ _id: resourceList });
-    if (!list) {
-      return { error: "Resource list not found" };
-    }
+    return await this.atomically(async (session) => {
+      const existing = await this.resourceLists.findOne({ _id: resourceList }, {
+        session,
+      });
+      if (!existing) {
+        return { error: "Resource list not found" };
+      }
+      if (await this.breaksDuplicatePolicy(existing, resource, session)) {
+        return { error: "This resource is already in the list" };
+      }
 
-    const index = list.length;
-    const indexedResourceId = freshID();
-    await this.indexedResources.insertOne({
-      _id: indexedResourceId as IndexedResource,
-      resource,
-      title: resourceTitle,
-      list: resourceList,
-      index,
-    });
+      // Reserve the last index by incrementing the length in a single write
+      const list = await this.resourceLists.findOneAndUpdate(
+        { _id: resourceList },
+        { $inc: { length: 1 } },
+        { returnDocument: "before", session },
+      );
+      if (!list) {
+        return { error: "Resource list not found" };
+      }
 
-    // Increment the list length
-    await this.resourceLists.updateOne(
-      { _id: resourceList },
-      { $inc: { length: 1 } },
-    );
+      const indexedResourceId = freshID();
+      if (list.ordering === "rank") {
+        const [last] = await this.indexedResources
+          .find({ list: resourceList }, { session })
+          .sort({ rank: -1, _id: -1 })
+          .limit(1)
+          .toArray();
+        await this.indexedResources.insertOne({
+          _id: indexedResourceId as IndexedResource,
+          resource,
+          title: resourceTitle,
+          list: resourceList,
+          rank: rankBetween(last?.rank),
+        }, { session });
+      } else {
+        await this.indexedResources.insertOne({
+          _id: indexedResourceId as IndexedResource,
+          resource,
+          title: resourceTitle,
+          list: resourceList,
+          index: list.length,
+        }, { session });
+      }
 
-    return { newIndexedResource: indexedResourceId as IndexedResource };
+      return { newIndexedResource: indexedResourceId as IndexedResource };
+    }, resourceList);
   }
 
   /**
@@ -164,14 +523,11 @@ export default class ResourceListConcept {
       return { error: "Resource list not found" };
     }
 
-    if (index < 0 || index >= list.length) {
+    if (!Number.isInteger(index) || index < 0 || index >= list.length) {
       return { error: "Index out of bounds" };
     }
 
-    const indexedResource = await this.indexedResources.findOne({
-      list: resourceList,
-      index,
-    });
+    const indexedResource = await this.findAt(list, index);
     if (!indexedResource) {
       return { error: "Indexed resource not found at this index" };
     }
@@ -187,37 +543,59 @@ export default class ResourceListConcept {
   async deleteResource(
     { resourceList, index }: { resourceList: ResourceList; index: number },
   ): Promise<Empty | { error: string }> {
-    const list = await this.resourceLists.findOne({ _id: resourceList });
-    if (!list) {
-      return { error: "Resource list not found" };
-    }
+    return await this.atomically(
+      async (session): Promise<Empty | { error: string }> => {
+        const list = await this.resourceLists.findOne({ _id: resourceList }, {
+          session,
+        });
+        if (!list) {
+          return { error: "Resource list not found" };
+        }
 
-    if (index < 0 || index >= list.length) {
-      return { error: "Index out of bounds" };
-    }
+        if (!Number.isInteger(index) || index < 0 || index >= list.length) {
+          return { error: "Index out of bounds" };
+        }
 
-    // Delete the resource at the index
-    await this.indexedResources.deleteOne({
-      list: resourceList,
-      index,
-    });
+        // Delete the resource at the index
+        const deleted = await this.findAt(list, index, session);
+        if (!deleted) {
+          return { error: "Indexed resource not found at this index" };
+        }
+        await this.removeFromList(list, deleted, session);
 
-    // Decrement the indices of all resources after the deleted one
-    await this.indexedResources.updateMany(
-      {
-        list: resourceList,
-        index: { $gt: index },
+        return {};
       },
-      { $inc: { index: -1 } },
     );
+  }
 
-    // Decrement the list length
-    await this.resourceLists.updateOne(
-      { _id: resourceList },
-      { $inc: { length: -1 } },
-    );
+  /**
+   * Action: Deletes an indexed resource.
+   * @requires IndexedResource is in the set of IndexedResources.
+   * @effects Removes the IndexedResource from the set of IndexedResources. Decrements the length of its ResourceList by 1. Decrements indices of all IndexedResources with the same list and index greater than its index by 1.
+   */
+  async deleteIndexedResource(
+    { indexedResource }: { indexedResource: IndexedResource },
+  ): Promise<Empty | { error: string }> {
+    return await this.atomically(
+      async (session): Promise<Empty | { error: string }> => {
+        const deleted = await this.indexedResources.findOne({
+          _id: indexedResource,
+        }, { session });
+        if (!deleted) {
+          return { error: "Indexed resource not found" };
+        }
 
-    return {};
+        const list = await this.resourceLists.findOne({ _id: deleted.list }, {
+          session,
+        });
+        if (!list) {
+          return { error: "Resource list not found" };
+        }
+        await this.removeFromList(list, deleted, session);
+
+        return {};
+      },
+    );
   }
 
   /**
@@ -232,43 +610,281 @@ export default class ResourceListConcept {
       index2: number;
     },
   ): Promise<Empty | { error: string }> {
-    const list = await this.resourceLists.findOne({ _id: resourceList });
-    if (!list) {
-      return { error: "Resource list not found" };
-    }
+    return await this.atomically(
+      async (session): Promise<Empty | { error: string }> => {
+        const list = await this.resourceLists.findOne({ _id: resourceList }, {
+          session,
+        });
+        if (!list) {
+          return { error: "Resource list not found" };
+        }
 
-    if (
-      index1 < 0 || index1 >= list.length || index2 < 0 ||
-      index2 >= list.length
-    ) {
-      return { error: "Index out of bounds" };
-    }
+        if (
+          !Number.isInteger(index1) || index1 < 0 || index1 >= list.length ||
+          !Number.isInteger(index2) || index2 < 0 || index2 >= list.length
+        ) {
+          return { error: "Index out of bounds" };
+        }
 
-    // Get both resources
-    const resource1 = await this.indexedResources.findOne({
-      list: resourceList,
-      index: index1,
-    });
-    const resource2 = await this.indexedResources.findOne({
-      list: resourceList,
-      index: index2,
-    });
+        // Get both resources
+        let resource1 = await this.findAt(list, index1, session);
+        let resource2 = await this.findAt(list, index2, session);
 
-    if (!resource1 || !resource2) {
-      return { error: "One or both resources not found" };
-    }
+        if (!resource1 || !resource2) {
+          return { error: "One or both resources not found" };
+        }
 
-    // Swap the indices
-    await this.indexedResources.updateOne(
-      { _id: resource1._id },
-      { $set: { index: index2 } },
+        if (index1 === index2) {
+          return {};
+        }
+
+        if (list.ordering === "rank") {
+          if (resource1.rank === resource2.rank) {
+            // Swapping equal ranks would change nothing, so give the list distinct ranks first
+            await this.spreadListRanks(list, session);
+            resource1 = (await this.findAt(list, index1, session))!;
+            resource2 = (await this.findAt(list, index2, session))!;
+          }
+
+          // Swap the ranks
+          await this.indexedResources.bulkWrite([
+            {
+              updateOne: {
+                filter: { _id: resource1._id },
+                update: { $set: { rank: resource2.rank } },
+              },
+            },
+            {
+              updateOne: {
+                filter: { _id: resource2._id },
+                update: { $set: { rank: resource1.rank } },
+              },
+            },
+          ], { session });
+          return {};
+        }
+
+        // Swap the indices
+        await this.setIndices([
+          { _id: resource1._id, index: index2 },
+          { _id: resource2._id, index: index1 },
+        ], session);
+
+        return {};
+      },
+      resourceList,
     );
-    await this.indexedResources.updateOne(
-      { _id: resource2._id },
-      { $set: { index: index1 } },
+  }
+
+  /**
+   * Action: Inserts a resource into a list at a specific index.
+   * @requires ResourceList is in the set of ResourceLists, index is a non-negative integer not greater than the length of the ResourceList. If the ResourceList doesn't allow duplicates, resource is not in it yet.
+   * @effects Increments indices of all IndexedResources with list being provided resourceList and index greater than or equal to provided index by 1. Adds a new IndexedResource with the provided resource, resourceTitle, and index. Increments the length of the ResourceList by 1.
+   */
+  async insertResourceAt(
+    { resourceList, index, resource, resourceTitle }: {
+      resourceList: ResourceList;
+      index: number;
+      resource: Resource;
+      resourceTitle: string;
+    },
+  ): Promise<{ newIndexedResource: IndexedResource } | { error: string }> {
+    return await this.atomically(async (session) => {
+      const list = await this.resourceLists.findOne({ _id: resourceList }, {
+        session,
+      });
+      if (!list) {
+        return { error: "Resource list not found" };
+      }
+
+      if (!Number.isInteger(index) || index < 0 || index > list.length) {
+        return { error: "Index out of bounds" };
+      }
+      if (await this.breaksDuplicatePolicy(list, resource, session)) {
+        return { error: "This resource is already in the list" };
+      }
+
+      const indexedResourceId = freshID();
+      if (list.ordering === "rank") {
+        // A rank between the neighbours leaves the other resources untouched
+        await this.indexedResources.insertOne({
+          _id: indexedResourceId as IndexedResource,
+          resource,
+          title: resourceTitle,
+          list: resourceList,
+          rank: await this.rankAt(list, index, session),
+        }, { session });
+      } else {
+        // Make room by shifting the resources at and after the index
+        const later = await this.indexedResources
+          .find({ list: resourceList, index: { $gte: index } }, { session })
+          .toArray();
+        await this.setIndices(
+          later.map((r) => ({ _id: r._id, index: r.index! + 1 })),
+          session,
+        );
+
+        await this.indexedResources.insertOne({
+          _id: indexedResourceId as IndexedResource,
+          resource,
+          title: resourceTitle,
+          list: resourceList,
+          index,
+        }, { session });
+      }
+
+      // Increment the list length
+      await this.resourceLists.updateOne(
+        { _id: resourceList },
+        { $inc: { length: 1 } },
+        { session },
+      );
+
+      return { newIndexedResource: indexedResourceId as IndexedResource };
+    }, resourceList);
+  }
+
+  /**
+   * Action: Moves a resource to another position in a list.
+   * @requires ResourceList is in the set of ResourceLists, fromIndex and toIndex are non-negative integers less than the length of the ResourceList.
+   * @effects Sets the index of the IndexedResource at fromIndex to toIndex. If fromIndex is less than toIndex, decrements indices of the IndexedResources between them by 1, otherwise increments them by 1, keeping their relative order.
+   */
+  async moveResource(
+    { resourceList, fromIndex, toIndex }: {
+      resourceList: ResourceList;
+      fromIndex: number;
+      toIndex: number;
+    },
+  ): Promise<Empty | { error: string }> {
+    return await this.atomically(
+      async (session): Promise<Empty | { error: string }> => {
+        const list = await this.resourceLists.findOne({ _id: resourceList }, {
+          session,
+        });
+        if (!list) {
+          return { error: "Resource list not found" };
+        }
+
+        if (
+          !Number.isInteger(fromIndex) || fromIndex < 0 ||
+          fromIndex >= list.length || !Number.isInteger(toIndex) ||
+          toIndex < 0 || toIndex >= list.length
+        ) {
+          return { error: "Index out of bounds" };
+        }
+
+        const moved = await this.findAt(list, fromIndex, session);
+        if (!moved) {
+          return { error: "Indexed resource not found at this index" };
+        }
+
+        if (fromIndex === toIndex) {
+          return {};
+        }
+
+        if (list.ordering === "rank") {
+          // Rank the resource between its new neighbours
+          await this.indexedResources.updateOne({ _id: moved._id }, {
+            $set: {
+              rank: await this.rankAt(list, toIndex, session, moved._id),
+            },
+          }, { session });
+          return {};
+        }
+
+        // Shift the resources in between towards the freed position
+        const between = await this.indexedResources
+          .find({
+            list: resourceList,
+            index: fromIndex < toIndex
+              ? { $gt: fromIndex, $lte: toIndex }
+              : { $gte: toIndex, $lt: fromIndex },
+          }, { session })
+          .toArray();
+        const shift = fromIndex < toIndex ? -1 : 1;
+        await this.setIndices([
+          ...between.map((r) => ({ _id: r._id, index: r.index! + shift })),
+          { _id: moved._id, index: toIndex },
+        ], session);
+
+        return {};
+      },
+      resourceList,
     );
+  }
 
-    return {};
+  /**
+   * Action: Reorders all resources in a list at once.
+   * @requires ResourceList is in the set of ResourceLists, order contains every index of the ResourceList exactly once.
+   * @effects For every position i in order, sets the index of the IndexedResource that was at index order[i] to i.
+   */
+  async reorderResources(
+    { resourceList, order }: { resourceList: ResourceList; order: number[] },
+  ): Promise<Empty | { error: string }> {
+    if (!Array.isArray(order)) {
+      return { error: "Order must contain every index of the list" };
+    }
+
+    return await this.atomically(
+      async (session): Promise<Empty | { error: string }> => {
+        const list = await this.resourceLists.findOne({ _id: resourceList }, {
+          session,
+        });
+        if (!list) {
+          return { error: "Resource list not found" };
+        }
+
+        if (order.length !== list.length) {
+          return { error: "Order must contain every index of the list" };
+        }
+        const seen = new Set<number>();
+        for (const index of order) {
+          if (!Number.isInteger(index) || index < 0 || index >= list.length) {
+            return { error: "Index out of bounds" };
+          }
+          if (seen.has(index)) {
+            return { error: `Index ${index} appears more than once in order` };
+          }
+          seen.add(index);
+        }
+
+        const resources = await this.loadOrdered(list, session);
+        const byIndex = new Map(resources.map((r) => [r.index!, r]));
+        if (byIndex.size !== list.length) {
+          return { error: "Indexed resources don't match the list length" };
+        }
+
+        if (list.ordering === "rank") {
+          if (order.length === 0) {
+            return {};
+          }
+          const ranks = spreadRanks(order.length);
+          await this.indexedResources.bulkWrite(
+            order.map((oldIndex, newIndex) => ({
+              updateOne: {
+                filter: { _id: byIndex.get(oldIndex)!._id },
+                update: { $set: { rank: ranks[newIndex] } },
+              },
+            })),
+            { session },
+          );
+          return {};
+        }
+
+        const moves = order
+          .map((oldIndex, newIndex) => ({
+            _id: byIndex.get(oldIndex)!._id,
+            oldIndex,
+            index: newIndex,
+          }))
+          .filter(({ oldIndex, index }) => oldIndex !== index)
+          .map(({ _id, index }) => ({ _id, index }));
+        await this.setIndices(moves, session);
+
+        return {};
+      },
+      resourceList,
+    );
   }
 
   /**
@@ -279,20 +895,283 @@ export default class ResourceListConcept {
   async deleteResourceList(
     { resourceList }: { resourceList: ResourceList },
   ): Promise<Empty | { error: string }> {
-    const existingList = await this.resourceLists.findOne({
-      _id: resourceList,
+    return await this.atomically(
+      async (session): Promise<Empty | { error: string }> => {
+        const existingList = await this.resourceLists.findOne({
+          _id: resourceList,
+        }, { session });
+        if (!existingList) {
+          return { error: "Resource list not found" };
+        }
+
+        // Remove all indexed resources associated with this list
+        await this.indexedResources.deleteMany({ list: resourceList }, {
+          session,
+        });
+
+        // Remove the list
+        await this.resourceLists.deleteOne({ _id: resourceList }, { session });
+
+        return {};
+      },
+    );
+  }
+
+  /**
+   * Action: Repairs the indices of a resource list.
+   * @requires ResourceList is in the set of ResourceLists.
+   * @effects Sorts the IndexedResources of the ResourceList by index, breaking ties by creation order, and sets their indices to 0, 1, 2, ... in that order. For a ResourceList ordered by rank, gives its IndexedResources evenly spread ranks in their current order instead. Sets the length of the ResourceList to the number of its IndexedResources. Returns how many IndexedResources got a new index or rank.
+   */
+  async repairResourceList(
+    { resourceList }: { resourceList: ResourceList },
+  ): Promise<{ reindexedResources: number } | { error: string }> {
+    // Runs without the unique index, which can't be created while a list holds duplicate indices
+    const result = await this.inTransaction(async (session) => {
+      const list = await this.resourceLists.findOne({ _id: resourceList }, {
+        session,
+      });
+      if (!list) {
+        return { error: "Resource list not found" };
+      }
+
+      if (list.ordering === "rank") {
+        const reranked = await this.spreadListRanks(list, session);
+        await this.resourceLists.updateOne(
+          { _id: resourceList },
+          {
+            $set: {
+              length: await this.indexedResources.countDocuments({
+                list: resourceList,
+              }, { session }),
+            },
+          },
+          { session },
+        );
+        return { reindexedResources: reranked };
+      }
+
+      // IDs are time-ordered, so they break ties by creation order
+      const resources = await this.indexedResources
+        .find({ list: resourceList }, { session })
+        .sort({ index: 1, _id: 1 })
+        .toArray();
+      const moves = resources
+        .map((r, index) => ({ _id: r._id, oldIndex: r.index, index }))
+        .filter(({ oldIndex, index }) => oldIndex !== index)
+        .map(({ _id, index }) => ({ _id, index }));
+      await this.setIndices(moves, session);
+
+      await this.resourceLists.updateOne(
+        { _id: resourceList },
+        { $set: { length: resources.length } },
+        { session },
+      );
+
+      return { reindexedResources: moves.length };
     });
-    if (!existingList) {
-      return { error: "Resource list not found" };
+
+    // Building the unique index fails while any list holds duplicate indices, so try again now
+    await this.retryIndexes();
+    return result;
+  }
+
+  /**
+   * Action: Repairs every resource list that holds several IndexedResources at one index.
+   * @requires true
+   * @effects Runs repairResourceList on every ResourceList ordered by index in which two IndexedResources share an index. Ensures the indices of every ResourceList are unique from then on. Returns the number of repaired ResourceLists.
+   */
+  async repairDuplicateIndices(): Promise<{ repairedLists: number }> {
+    const broken = await this.indexedResources.aggregate<{ _id: ResourceList }>(
+      [
+        { $match: { index: { $exists: true } } },
+        {
+          $group: {
+            _id: { list: "$list", index: "$index" },
+            count: { $sum: 1 },
+          },
+        },
+        { $match: { count: { $gt: 1 } } },
+        { $group: { _id: "$_id.list" } },
+      ],
+    ).toArray();
+
+    for (const { _id } of broken) {
+      await this.repairResourceList({ resourceList: _id });
     }
+    await this.retryIndexes();
 
-    // Remove all indexed resources associated with this list
-    await this.indexedResources.deleteMany({ list: resourceList });
+    return { repairedLists: broken.length };
+  }
 
-    // Remove the list
-    await this.resourceLists.deleteOne({ _id: resourceList });
+  /**
+   * Action: Changes how a resource list keeps its order.
+   * @requires ResourceList is in the set of ResourceLists, ordering is "index" or "rank".
+   * @effects Sets the ordering of the ResourceList to the provided ordering, keeping the order of its IndexedResources. Replaces their indices with ranks when switching to "rank", and their ranks with indices when switching to "index".
+   */
+  async setResourceListOrdering(
+    { resourceList, ordering }: {
+      resourceList: ResourceList;
+      ordering: Ordering;
+    },
+  ): Promise<Empty | { error: string }> {
+    if (ordering !== "index" && ordering !== "rank") {
+      return { error: 'Ordering must be "index" or "rank"' };
+    }
 
-    return {};
+    return await this.atomically(
+      async (session): Promise<Empty | { error: string }> => {
+        const list = await this.resourceLists.findOne({ _id: resourceList }, {
+          session,
+        });
+        if (!list) {
+          return { error: "Resource list not found" };
+        }
+
+        if ((list.ordering ?? "index") === ordering) {
+          return {};
+        }
+
+        const resources = await this.loadOrdered(list, session);
+        if (resources.length > 0 && ordering === "rank") {
+          const ranks = spreadRanks(resources.length);
+          await this.indexedResources.bulkWrite(
+            resources.map((r, i) => ({
+              updateOne: {
+                filter: { _id: r._id },
+                update: { $set: { rank: ranks[i] }, $unset: { index: "" } },
+              },
+            })),
+            { session },
+          );
+        } else if (resources.length > 0) {
+          await this.indexedResources.bulkWrite(
+            resources.map((r, i) => ({
+              updateOne: {
+                filter: { _id: r._id },
+                update: { $set: { index: i }, $unset: { rank: "" } },
+              },
+            })),
+            { session },
+          );
+        }
+
+        await this.resourceLists.updateOne(
+          { _id: resourceList },
+          { $set: { ordering, length: resources.length } },
+          { session },
+        );
+
+        return {};
+      },
+    );
+  }
+
+  /**
+   * Action: Sets whether a resource list may hold the same resource more than once.
+   * @requires ResourceList is in the set of ResourceLists. If allowDuplicates is false, no resource is in the ResourceList more than once.
+   * @effects Sets allowDuplicates of the ResourceList to the provided flag.
+   */
+  async setAllowDuplicates(
+    { resourceList, allowDuplicates }: {
+      resourceList: ResourceList;
+      allowDuplicates: boolean;
+    },
+  ): Promise<Empty | { error: string }> {
+    return await this.atomically(
+      async (session): Promise<Empty | { error: string }> => {
+        const list = await this.resourceLists.findOne({ _id: resourceList }, {
+          session,
+        });
+        if (!list) {
+          return { error: "Resource list not found" };
+        }
+
+        if (!allowDuplicates) {
+          const resources = await this.indexedResources
+            .find({ list: resourceList }, { session })
+            .toArray();
+          if (
+            new Set(resources.map((r) => r.resource)).size < resources.length
+          ) {
+            return {
+              error: "The list holds duplicate resources, dedupe it first",
+            };
+          }
+        }
+
+        await this.resourceLists.updateOne(
+          { _id: resourceList },
+          { $set: { allowDuplicates } },
+          { session },
+        );
+
+        return {};
+      },
+    );
+  }
+
+  /**
+   * Action: Removes repeated resources from a resource list.
+   * @requires ResourceList is in the set of ResourceLists, keep is "first" or "last".
+   * @effects For every resource held more than once in the ResourceList, keeps only its first or last IndexedResource in list order and removes the others from the set of IndexedResources. Sets the indices of the remaining IndexedResources to 0, 1, 2, ... in their order, and the length of the ResourceList to their number. Returns how many IndexedResources were removed.
+   */
+  async dedupeResourceList(
+    { resourceList, keep }: {
+      resourceList: ResourceList;
+      keep: "first" | "last";
+    },
+  ): Promise<{ removedResources: number } | { error: string }> {
+    if (keep !== "first" && keep !== "last") {
+      return { error: 'Keep must be "first" or "last"' };
+    }
+
+    return await this.atomically(async (session) => {
+      const list = await this.resourceLists.findOne({ _id: resourceList }, {
+        session,
+      });
+      if (!list) {
+        return { error: "Resource list not found" };
+      }
+
+      const resources = await this.loadOrdered(list, session);
+      const seen = new Set<Resource>();
+      const removed = new Set<IndexedResource>();
+      const visitOrder = keep === "first"
+        ? resources
+        : [...resources].reverse();
+      for (const r of visitOrder) {
+        if (seen.has(r.resource)) {
+          removed.add(r._id);
+        }
+        seen.add(r.resource);
+      }
+
+      if (removed.size > 0) {
+        await this.indexedResources.deleteMany({ _id: { $in: [...removed] } }, {
+          session,
+        });
+      }
+
+      // Close the gaps, ranks need no update
+      const remaining = resources.filter((r) => !removed.has(r._id));
+      if (list.ordering !== "rank") {
+        await this.setIndices(
+          remaining
+            .map((r, index) => ({ _id: r._id, oldIndex: r.index, index }))
+            .filter(({ oldIndex, index }) => oldIndex !== index)
+            .map(({ _id, index }) => ({ _id, index })),
+          session,
+        );
+      }
+
+      await this.resourceLists.updateOne(
+        { _id: resourceList },
+        { $set: { length: remaining.length } },
+        { session },
+      );
+
+      return { removedResources: removed.size };
+    });
   }
 
   /**
@@ -324,10 +1203,75 @@ export default class ResourceListConcept {
   async _getListResources(
     { resourceList }: { resourceList: ResourceList },
   ): Promise<IndexedResourceDoc[]> {
-    return await this.indexedResources
-      .find({ list: resourceList })
-      .sort({ index: 1 })
-      .toArray();
+    const list = await this.resourceLists.findOne({ _id: resourceList });
+    if (!list) {
+      return [];
+    }
+
+    return await this.loadOrdered(list);
+  }
+
+  /**
+   * Query: Retrieves an indexed resource, with its position as index.
+   */
+  async _getIndexedResource(
+    { indexedResource }: { indexedResource: IndexedResource },
+  ): Promise<IndexedResourceDoc | null> {
+    const found = await this.indexedResources.findOne({ _id: indexedResource });
+    if (!found) {
+      return null;
+    }
+
+    const list = await this.resourceLists.findOne({ _id: found.list });
+    if (!list) {
+      return found;
+    }
+    return { ...found, index: await this.positionOf(list, found) };
+  }
+
+  /**
+   * Query: Retrieves every list holding a resource, with the indexed resource and its position.
+   */
+  async _findResourceInLists(
+    { resource }: { resource: Resource },
+  ): Promise<
+    {
+      resourceList: ResourceList;
+      indexedResource: IndexedResource;
+      index: number;
+    }[]
+  > {
+    const found = await this.indexedResources.find({ resource }).toArray();
+    const lists = new Map(
+      (await this.resourceLists
+        .find({ _id: { $in: [...new Set(found.map((r) => r.list))] } })
+        .toArray())
+        .map((list) => [list._id, list]),
+    );
+
+    const results = [];
+    for (const indexedResource of found) {
+      const list = lists.get(indexedResource.list);
+      if (!list) {
+        continue;
+      }
+      results.push({
+        resourceList: list._id,
+        indexedResource: indexedResource._id,
+        index: await this.positionOf(list, indexedResource),
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Query: Retrieves the resources of a list with a given title, in list order.
+   */
+  async _findByTitle(
+    { resourceList, title }: { resourceList: ResourceList; title: string },
+  ): Promise<IndexedResourceDoc[]> {
+    const resources = await this._getListResources({ resourceList });
+    return resources.filter((r) => r.title === title);
   }
 
   /**
@@ -0,0 +1,132 @@
+/**
+ * Audited LLM access for RoadBuilder
+ *
+ * Wraps any LLMProvider and records every call, including failed ones, with its
+ * prompt, response, model, token counts, latency and calling context.
+ */
+
+import type {
+  CallOptions,
+  LLMProvider,
+  LLMResult,
+  LLMUsage,
+} from "@utils/llm.ts";
+
+/**
+ * A single call, as recorded in the audit log
+ */
+export interface AuditEntry extends Partial<LLMUsage> {
+  user?: string;
+  concept?: string;
+  action?: string;
+  promptTemplate?: string;
+  prompt: string;
+  response: string;
+  model: string;
+  latencyMs: number;
+  cached?: boolean;
+  error?: string;
+}
+
+/**
+ * Destination of audit entries, such as the LLMAudit concept
+ */
+export interface AuditRecorder {
+  recordCall(entry: AuditEntry): Promise<unknown>;
+}
+
+export class AuditedLLM implements LLMProvider {
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly recorder: AuditRecorder,
+  ) {}
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  async generate(prompt: string, options?: CallOptions): Promise<LLMResult> {
+    const context = {
+      user: options?.user,
+      concept: options?.concept,
+      action: options?.action,
+      promptTemplate: options?.promptTemplate,
+      prompt,
+    };
+    const start = performance.now();
+
+    try {
+      const result = await this.provider.generate(prompt, options);
+      await this.record({
+        ...context,
+        response: result.text,
+        model: result.model,
+        ...result.usage,
+        latencyMs: performance.now() - start,
+        cached: result.cached ?? false,
+      });
+      return result;
+    } catch (error) {
+      await this.record({
+        ...context,
+        response: "",
+        model: this.model,
+        latencyMs: performance.now() - start,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+  }
+
+  async executeLLM(prompt: string, options?: CallOptions): Promise<string> {
+    return (await this.generate(prompt, options)).text;
+  }
+
+  async *stream(
+    prompt: string,
+    options?: CallOptions,
+  ): AsyncGenerator<string> {
+    const context = {
+      user: options?.user,
+      concept: options?.concept,
+      action: options?.action,
+      promptTemplate: options?.promptTemplate,
+      prompt,
+      model: this.model,
+    };
+    const start = performance.now();
+
+    // Streams don't report token counts, so only the text is recorded
+    let response = "";
+    try {
+      for await (const chunk of this.provider.stream(prompt, options)) {
+        response += chunk;
+        yield chunk;
+      }
+    } catch (error) {
+      await this.record({
+        ...context,
+        response,
+        latencyMs: performance.now() - start,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+    await this.record({
+      ...context,
+      response,
+      latencyMs: performance.now() - start,
+    });
+  }
+
+  /**
+   * Records an entry, without letting a failing audit log break the call.
+   */
+  private async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.recorder.recordCall(entry);
+    } catch (error) {
+      console.error("❌ Error recording LLM call:", (error as Error).message);
+    }
+  }
+}
@@ -63,6 +63,15 @@ export async function testDb() {
   return [test_Db, client] as [Db, MongoClient];
 }
 
+/**
+ * Client a database was opened through, for starting sessions
+ * @returns {MongoClient} client of the database
+ */
+export function clientOf(db: Db): MongoClient {
+  // Every Db keeps its client, but the driver only declares it from version 7 on
+  return (db as Db & { client: MongoClient }).client;
+}
+
 /**
  * Creates a fresh ID.
  * @returns {ID} UUID v7 generic ID.
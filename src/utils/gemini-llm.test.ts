@@ -0,0 +1,184 @@
+import { assertEquals } from "jsr:@std/assert";
+import { GeminiLLM } from "@utils/gemini-llm.ts";
+
+/**
+ * Replaces fetch with a fake Gemini API answering with the given parts, and
+ * returns the request bodies it received. Streaming requests get the parts as
+ * one event each.
+ */
+function fakeGemini(parts: { text: string; thought?: boolean }[]) {
+  const bodies: Record<string, unknown>[] = [];
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    const response = (answer: typeof parts) => ({
+      candidates: [{ content: { role: "model", parts: answer } }],
+      usageMetadata: {
+        promptTokenCount: 10,
+        candidatesTokenCount: 5,
+        totalTokenCount: 15,
+      },
+    });
+    if (String(input).includes("streamGenerateContent")) {
+      const events = parts
+        .map((part) => `data: ${JSON.stringify(response([part]))}\r\n\r\n`)
+        .join("");
+      return Promise.resolve(new Response(events));
+    }
+    return Promise.resolve(new Response(JSON.stringify(response(parts))));
+  };
+  return { bodies, restore: () => globalThis.fetch = realFetch };
+}
+
+/**
+ * Runs fn with GEMINI_MODEL set to model, or unset if model is undefined.
+ */
+async function withModelEnv(
+  model: string | undefined,
+  fn: () => Promise<void> | void,
+) {
+  const previous = Deno.env.get("GEMINI_MODEL");
+  if (model === undefined) {
+    Deno.env.delete("GEMINI_MODEL");
+  } else {
+    Deno.env.set("GEMINI_MODEL", model);
+  }
+  try {
+    await fn();
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete("GEMINI_MODEL");
+    } else {
+      Deno.env.set("GEMINI_MODEL", previous);
+    }
+  }
+}
+
+Deno.test("GeminiLLM takes the model from the config, then GEMINI_MODEL, then the default", async () => {
+  console.log("\n# Testing Gemini Model Selection");
+
+  console.log("\n## 1. Model given in the config");
+  await withModelEnv("gemini-env", () => {
+    const llm = new GeminiLLM({ apiKey: "key", model: "gemini-config" });
+    assertEquals(llm.model, "gemini-config", "The config comes first");
+  });
+  console.log("✓ Config model is used over GEMINI_MODEL");
+
+  console.log("\n## 2. Model given in GEMINI_MODEL");
+  await withModelEnv("gemini-env", () => {
+    const llm = new GeminiLLM({ apiKey: "key" });
+    assertEquals(llm.model, "gemini-env", "GEMINI_MODEL comes second");
+  });
+  console.log("✓ GEMINI_MODEL is used without a config model");
+
+  console.log("\n## 3. No model given");
+  await withModelEnv(undefined, () => {
+    const llm = new GeminiLLM({ apiKey: "key" });
+    assertEquals(llm.model, "gemini-2.5-flash-lite", "Default model");
+  });
+  console.log("✓ Default model is used");
+
+  console.log("\n## 4. Model reaches the API");
+  const api = fakeGemini([{ text: "Loops" }]);
+  try {
+    const llm = new GeminiLLM({ apiKey: "key", model: "gemini-config" });
+    const result = await llm.generate("Name a topic");
+    assertEquals(result.model, "gemini-config");
+    assertEquals(result.usage?.totalTokens, 15);
+  } finally {
+    api.restore();
+  }
+  console.log("✓ Results name the model that answered");
+});
+
+Deno.test("GeminiLLM.fromEnv reads the API key and the generation config file", async () => {
+  console.log("\n# Testing Gemini Configuration From the Environment");
+  const previousKey = Deno.env.get("GEMINI_API_KEY");
+  const previousConfig = Deno.env.get("GEMINI_CONFIG");
+  const dir = await Deno.makeTempDir();
+  const api = fakeGemini([{ text: "Loops" }]);
+
+  try {
+    console.log("\n## 1. Missing API key");
+    Deno.env.delete("GEMINI_API_KEY");
+    let failed = false;
+    try {
+      await GeminiLLM.fromEnv(`${dir}/geminiConfig.json`);
+    } catch {
+      failed = true;
+    }
+    assertEquals(failed, true, "An API key is required");
+    console.log("✓ Correctly rejected a missing GEMINI_API_KEY");
+
+    console.log("\n## 2. Config file with generation parameters");
+    Deno.env.set("GEMINI_API_KEY", "key");
+    await Deno.writeTextFile(
+      `${dir}/geminiConfig.json`,
+      JSON.stringify({ temperature: 0.2, maxOutputTokens: 50 }),
+    );
+    const configured = await GeminiLLM.fromEnv(`${dir}/geminiConfig.json`);
+    await configured.generate("Name a topic", { maxOutputTokens: 20 });
+    assertEquals(api.bodies[0].generationConfig, {
+      temperature: 0.2,
+      maxOutputTokens: 20,
+    }, "File parameters apply, per-call options override them");
+    console.log("✓ Generation config is read from the file");
+
+    console.log("\n## 3. Missing config file");
+    const unconfigured = await GeminiLLM.fromEnv(`${dir}/missing.json`);
+    await unconfigured.generate("Name a topic");
+    assertEquals(api.bodies[1].generationConfig, { maxOutputTokens: 1000 });
+    console.log("✓ Defaults are used without a config file");
+
+    console.log("\n## 4. Config file given in GEMINI_CONFIG");
+    Deno.env.set("GEMINI_CONFIG", `${dir}/geminiConfig.json`);
+    const fromVariable = await GeminiLLM.fromEnv();
+    await fromVariable.generate("Name a topic");
+    assertEquals(api.bodies[2].generationConfig, {
+      temperature: 0.2,
+      maxOutputTokens: 50,
+    });
+    console.log("✓ Generation config is read from GEMINI_CONFIG");
+  } finally {
+    api.restore();
+    await Deno.remove(dir, { recursive: true });
+    if (previousKey === undefined) {
+      Deno.env.delete("GEMINI_API_KEY");
+    } else {
+      Deno.env.set("GEMINI_API_KEY", previousKey);
+    }
+    if (previousConfig === undefined) {
+      Deno.env.delete("GEMINI_CONFIG");
+    } else {
+      Deno.env.set("GEMINI_CONFIG", previousConfig);
+    }
+  }
+});
+
+Deno.test("GeminiLLM leaves thoughts out of the answer", async () => {
+  console.log("\n# Testing Gemini Thought Filtering");
+  const api = fakeGemini([
+    { text: "The user wants a topic. ", thought: true },
+    { text: "Loops" },
+    { text: "Maybe add more? ", thought: true },
+    { text: " and Recursion" },
+  ]);
+  const llm = new GeminiLLM({ apiKey: "key", model: "gemini-config" });
+
+  try {
+    console.log("\n## 1. Generate");
+    const result = await llm.generate("Name two topics");
+    assertEquals(result.text, "Loops and Recursion");
+    console.log(`✓ Answer without thoughts: ${result.text}`);
+
+    console.log("\n## 2. Stream");
+    const chunks: string[] = [];
+    for await (const chunk of llm.stream("Name two topics")) {
+      chunks.push(chunk);
+    }
+    assertEquals(chunks, ["Loops", " and Recursion"]);
+    console.log("✓ Thought chunks are not streamed");
+  } finally {
+    api.restore();
+  }
+});
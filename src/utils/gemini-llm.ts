@@ -2,40 +2,146 @@
  * LLM Integration for RoadBuilder
  *
  * Handles the requestAssignmentsFromLLM functionality using Google's Gemini API.
- * The LLM prompt is hardwired with user preferences and doesn't take external hints.
+ * The model is taken from GEMINI_MODEL and the generation parameters from
+ * geminiConfig.json, and both can be adjusted per call.
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  EnhancedGenerateContentResponse,
+  GenerationConfig,
+  GenerativeModel,
+  GoogleGenerativeAI,
+} from "@google/generative-ai";
+import type { CallOptions, LLMProvider, LLMResult } from "@utils/llm.ts";
+
+// Used when neither the config nor GEMINI_MODEL name a model
+const DEFAULT_MODEL = "gemini-2.5-flash-lite";
+
+// Used when the generation config doesn't limit the answer length
+const DEFAULT_MAX_OUTPUT_TOKENS = 1000;
+
+/**
+ * Generation parameters, including options newer than the SDK's types such as thinkingConfig
+ */
+export type GeminiGenerationConfig = GenerationConfig & Record<string, unknown>;
 
 /**
  * Configuration for API access
  */
 export interface Config {
   apiKey: string;
+  // Defaults to GEMINI_MODEL, then to gemini-2.5-flash-lite
+  model?: string;
+  generationConfig?: GeminiGenerationConfig;
 }
 
-export class GeminiLLM {
-  private apiKey: string;
+export class GeminiLLM implements LLMProvider {
+  private genAI: GoogleGenerativeAI;
+  readonly model: string;
+  private generationConfig: GeminiGenerationConfig;
 
   constructor(config: Config) {
-    this.apiKey = config.apiKey;
+    this.genAI = new GoogleGenerativeAI(config.apiKey);
+    this.model = config.model ?? Deno.env.get("GEMINI_MODEL") ??
+      DEFAULT_MODEL;
+    this.generationConfig = config.generationConfig ?? {};
+  }
+
+  /**
+   * Creates a GeminiLLM from GEMINI_API_KEY, GEMINI_MODEL and the generation config file,
+   * which is GEMINI_CONFIG if set.
+   */
+  static async fromEnv(
+    configPath = Deno.env.get("GEMINI_CONFIG") ?? "geminiConfig.json",
+  ): Promise<GeminiLLM> {
+    const apiKey = Deno.env.get("GEMINI_API_KEY");
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY is not set");
+    }
+
+    let generationConfig: GeminiGenerationConfig = {};
+    try {
+      generationConfig = JSON.parse(await Deno.readTextFile(configPath));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+
+    return new GeminiLLM({ apiKey, generationConfig });
   }
 
-  async executeLLM(prompt: string): Promise<string> {
+  /**
+   * Applies the per-call overrides to the configured generation parameters.
+   */
+  private getModel(options?: CallOptions): GenerativeModel {
+    return this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        maxOutputTokens: DEFAULT_MAX_OUTPUT_TOKENS,
+        ...this.generationConfig,
+        ...(options?.temperature !== undefined && {
+          temperature: options.temperature,
+        }),
+        ...(options?.maxOutputTokens !== undefined && {
+          maxOutputTokens: options.maxOutputTokens,
+        }),
+        ...(options?.responseSchema && {
+          responseMimeType: "application/json",
+          responseSchema: options.responseSchema,
+        }),
+      },
+    });
+  }
+
+  /**
+   * Extracts the answer from a response, leaving out thoughts.
+   */
+  private answerText(response: EnhancedGenerateContentResponse): string {
+    // Thoughts are included when thinkingConfig.includeThoughts is set, but aren't part of the answer
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    return parts
+      .filter((part) => !(part as { thought?: boolean }).thought)
+      .map((part) => part.text ?? "")
+      .join("");
+  }
+
+  async generate(prompt: string, options?: CallOptions): Promise<LLMResult> {
     try {
-      // Initialize Gemini AI
-      const genAI = new GoogleGenerativeAI(this.apiKey);
-      const model = genAI.getGenerativeModel({
-        model: "gemini-2.5-flash-lite",
-        generationConfig: {
-          maxOutputTokens: 1000,
-        },
-      });
       // Execute the LLM
-      const result = await model.generateContent(prompt);
+      const result = await this.getModel(options).generateContent(prompt);
       const response = await result.response;
-      const text = response.text();
-      return text;
+      const text = this.answerText(response);
+      const usage = response.usageMetadata && {
+        promptTokens: response.usageMetadata.promptTokenCount,
+        outputTokens: response.usageMetadata.candidatesTokenCount,
+        totalTokens: response.usageMetadata.totalTokenCount,
+      };
+      return { text, model: this.model, usage };
+    } catch (error) {
+      console.error("❌ Error calling Gemini API:", (error as Error).message);
+      throw error;
+    }
+  }
+
+  async executeLLM(prompt: string, options?: CallOptions): Promise<string> {
+    return (await this.generate(prompt, options)).text;
+  }
+
+  async *stream(
+    prompt: string,
+    options?: CallOptions,
+  ): AsyncGenerator<string> {
+    try {
+      const result = await this.getModel(options).generateContentStream(
+        prompt,
+      );
+      for await (const chunk of result.stream) {
+        const text = this.answerText(chunk);
+        if (text !== "") {
+          yield text;
+        }
+      }
     } catch (error) {
       console.error("❌ Error calling Gemini API:", (error as Error).message);
       throw error;
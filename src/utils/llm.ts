@@ -0,0 +1,103 @@
+/**
+ * LLM Provider Interface for RoadBuilder
+ *
+ * Concepts that use AI depend on this interface rather than on a concrete model,
+ * so that Gemini, an OpenAI-compatible server, or a local stub can be plugged in.
+ */
+
+import type { ResponseSchema } from "@google/generative-ai";
+
+/**
+ * Options for a single LLM call
+ */
+export interface CallOptions {
+  // When set, the model answers with JSON matching this schema
+  responseSchema?: ResponseSchema;
+  // Overrides of the provider's configured sampling temperature and answer length
+  temperature?: number;
+  maxOutputTokens?: number;
+  // User on whose behalf the call is made, for per-user rate limits and auditing
+  user?: string;
+  // Concept and action making the call, and the prompt template used, for auditing
+  concept?: string;
+  action?: string;
+  promptTemplate?: string;
+  // Whether a cached answer may be reused (default true), false asks the model again
+  cache?: boolean;
+}
+
+/**
+ * Tokens spent on a single LLM call
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * The answer to a single LLM call
+ */
+export interface LLMResult {
+  text: string;
+  // Name of the model that produced the answer
+  model: string;
+  // Token counts, when the provider reports them
+  usage?: LLMUsage;
+  // Whether the answer was reused instead of requested from the model
+  cached?: boolean;
+}
+
+/**
+ * A language model that turns a prompt into a text answer
+ */
+export interface LLMProvider {
+  // Name of the model answers are requested from
+  readonly model: string;
+  // Returns the answer together with details about how it was produced
+  generate(prompt: string, options?: CallOptions): Promise<LLMResult>;
+  // Returns only the text of the answer
+  executeLLM(prompt: string, options?: CallOptions): Promise<string>;
+  // Returns the text of the answer in chunks, as they are produced
+  stream(prompt: string, options?: CallOptions): AsyncIterable<string>;
+}
+
+/**
+ * Error raised by a provider when a request to the model fails
+ */
+export class LLMRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "LLMRequestError";
+  }
+}
+
+/**
+ * Marks a result that was produced without the AI because the call to the model failed
+ */
+export type FallbackMarker = { error: string; fallback: true };
+
+/**
+ * Describes a failed call to the model, for results that use a fallback instead.
+ */
+export function fallbackMarker(error: unknown): FallbackMarker {
+  return {
+    error: `AI suggestion failed, a fallback was used instead: ${
+      (error as Error).message
+    }`,
+    fallback: true,
+  };
+}
+
+/**
+ * Computes the hex-encoded SHA-256 hash of a text.
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
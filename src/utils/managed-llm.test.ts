@@ -0,0 +1,76 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Collection } from "npm:mongodb";
+import { testDb } from "@utils/database.ts";
+import { ManagedLLM } from "@utils/managed-llm.ts";
+import { StubLLM } from "@utils/stub-llm.ts";
+
+Deno.test("ManagedLLM answers without the cache while its index can't be created", async () => {
+  const [db, client] = await testDb();
+  const stub = new StubLLM({ script: ["Loops"] });
+  const llm = new ManagedLLM(db, stub);
+
+  // Fail the first attempt to create the TTL index
+  const cache = (llm as unknown as { cache: Collection }).cache;
+  const createIndex = cache.createIndex.bind(cache);
+  let attempts = 0;
+  cache.createIndex = ((...args: Parameters<typeof createIndex>) => {
+    attempts++;
+    return attempts === 1
+      ? Promise.reject(new Error("index build failed"))
+      : createIndex(...args);
+  }) as typeof cache.createIndex;
+
+  try {
+    console.log("\n# Testing the LLM Cache Without Its Index");
+
+    console.log("\n## 1. Call while the index fails");
+    const first = await llm.generate("Name a topic");
+    assertEquals(first.text, "Loops", "The call is answered by the provider");
+    assertEquals(first.cached, undefined);
+    console.log("✓ Call answered without the cache");
+
+    console.log("\n## 2. Call again");
+    const second = await llm.generate("Name a topic");
+    assertEquals(second.text, "Loops");
+    assertEquals(second.cached, true, "The index was created on storing");
+    assertEquals(stub.prompts.length, 1);
+    console.log("✓ Index creation retried and the answer cached");
+
+    console.log("\n## 3. Call a third time");
+    await llm.generate("Name a topic");
+    assertEquals(attempts, 2, "The index is created only once");
+    console.log("✓ Index is not created again once it exists");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("ManagedLLM asks the provider again when the cache is bypassed", async () => {
+  const [db, client] = await testDb();
+  const stub = new StubLLM({ script: ["Loops", "Recursion", "Arrays"] });
+  const llm = new ManagedLLM(db, stub);
+
+  try {
+    console.log("\n# Testing Calls That Bypass the LLM Cache");
+
+    console.log("\n## 1. Call and cache the answer");
+    const first = await llm.generate("Name a topic");
+    assertEquals(first.text, "Loops");
+    console.log("✓ First answer from the provider");
+
+    console.log("\n## 2. Call again without the cache");
+    const second = await llm.generate("Name a topic", { cache: false });
+    assertEquals(second.text, "Recursion", "The provider answers again");
+    assertEquals(second.cached, undefined);
+    assertEquals(stub.prompts.length, 2);
+    console.log("✓ Fresh answer from the provider");
+
+    console.log("\n## 3. Call with the cache");
+    const third = await llm.generate("Name a topic");
+    assertEquals(third.text, "Recursion", "The fresh answer replaced the old");
+    assertEquals(third.cached, true);
+    console.log("✓ Fresh answer served from the cache");
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,259 @@
+/**
+ * Managed LLM access for RoadBuilder
+ *
+ * Wraps any LLMProvider with a response cache stored in MongoDB, per-user and
+ * global rate limits, and retries of transient failures with exponential backoff.
+ */
+
+import { Collection, Db } from "npm:mongodb";
+import {
+  type CallOptions,
+  type LLMProvider,
+  type LLMResult,
+  sha256Hex,
+} from "@utils/llm.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "LLM" + ".";
+
+// HTTP statuses worth retrying: timeouts, quota errors and server errors
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * At most requests calls within any window of windowMs milliseconds
+ */
+export interface RateLimit {
+  requests: number;
+  windowMs: number;
+}
+
+/**
+ * Configuration of the wrapper
+ */
+export interface ManagedLLMOptions {
+  // How long cached responses are reused, 0 disables the cache (default 1 hour)
+  cacheTtlSeconds?: number;
+  // Limits over all calls, and over the calls of each user
+  globalLimit?: RateLimit;
+  userLimit?: RateLimit;
+  // Retries of transient failures, waiting baseDelayMs, then twice as long each time
+  maxRetries?: number;
+  baseDelayMs?: number;
+}
+
+/**
+ * A cached response, keyed by the hash of the prompt, model and call options
+ */
+interface CacheDoc {
+  _id: string;
+  text: string;
+  model: string;
+  createdAt: Date;
+}
+
+/**
+ * Error raised when a call is refused because a rate limit is exhausted
+ */
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+export class ManagedLLM implements LLMProvider {
+  private cache: Collection<CacheDoc>;
+  private cacheIndex?: Promise<boolean>;
+  private globalCalls: number[] = [];
+  private userCalls = new Map<string, number[]>();
+  private cacheTtlSeconds: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+
+  constructor(
+    db: Db,
+    private readonly provider: LLMProvider,
+    private readonly options: ManagedLLMOptions = {},
+  ) {
+    this.cache = db.collection(PREFIX + "cache");
+    this.cacheTtlSeconds = options.cacheTtlSeconds ?? 3600;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  async generate(prompt: string, options?: CallOptions): Promise<LLMResult> {
+    const key = await this.cacheKey(prompt, options);
+    const cached = options?.cache === false ? null : await this.lookup(key);
+    if (cached) {
+      return cached;
+    }
+
+    this.acquire(options?.user);
+    const result = await this.withRetries(() =>
+      this.provider.generate(prompt, options)
+    );
+
+    await this.store(key, result);
+    return result;
+  }
+
+  async executeLLM(prompt: string, options?: CallOptions): Promise<string> {
+    return (await this.generate(prompt, options)).text;
+  }
+
+  async *stream(
+    prompt: string,
+    options?: CallOptions,
+  ): AsyncGenerator<string> {
+    const key = await this.cacheKey(prompt, options);
+    const cached = options?.cache === false ? null : await this.lookup(key);
+    if (cached) {
+      yield cached.text;
+      return;
+    }
+
+    // Streams aren't retried, since earlier chunks may already have been used
+    this.acquire(options?.user);
+    let text = "";
+    for await (const chunk of this.provider.stream(prompt, options)) {
+      text += chunk;
+      yield chunk;
+    }
+
+    await this.store(key, { text, model: this.model });
+  }
+
+  /**
+   * Computes the cache key of a call from its prompt, model and options.
+   */
+  private cacheKey(prompt: string, options?: CallOptions): Promise<string> {
+    // The calling context only affects rate limits and auditing, not the answer,
+    // and a fresh answer replaces the cached one
+    const {
+      user: _user,
+      concept: _concept,
+      action: _action,
+      promptTemplate: _promptTemplate,
+      cache: _cache,
+      ...config
+    } = options ?? {};
+    return sha256Hex(JSON.stringify({ model: this.model, prompt, config }));
+  }
+
+  /**
+   * Returns the cached answer for a key, unless it has expired.
+   */
+  private async lookup(key: string): Promise<LLMResult | null> {
+    if (this.cacheTtlSeconds <= 0) {
+      return null;
+    }
+    if (!await this.ensureCacheIndex()) {
+      return null;
+    }
+    // Expired documents are removed by MongoDB only periodically
+    const cached = await this.cache.findOne({
+      _id: key,
+      createdAt: { $gte: new Date(Date.now() - this.cacheTtlSeconds * 1000) },
+    });
+    return cached && { text: cached.text, model: cached.model, cached: true };
+  }
+
+  /**
+   * Caches an answer under a key.
+   */
+  private async store(key: string, result: LLMResult): Promise<void> {
+    // Without the TTL index cached answers would never expire
+    if (this.cacheTtlSeconds <= 0 || !await this.ensureCacheIndex()) {
+      return;
+    }
+    await this.cache.updateOne(
+      { _id: key },
+      {
+        $set: { text: result.text, model: result.model, createdAt: new Date() },
+      },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Creates the TTL index of the cache once. Returns whether the cache can be used.
+   */
+  private ensureCacheIndex(): Promise<boolean> {
+    this.cacheIndex ??= this.cache.createIndex({ createdAt: 1 }, {
+      expireAfterSeconds: this.cacheTtlSeconds,
+    }).then(() => true, (error) => {
+      // Calls go on without the cache, and the next one tries again
+      this.cacheIndex = undefined;
+      console.error(
+        "❌ Error creating LLM cache index:",
+        (error as Error).message,
+      );
+      return false;
+    });
+    return this.cacheIndex;
+  }
+
+  /**
+   * Records a call, or throws a RateLimitError if the global or user limit is exhausted.
+   */
+  private acquire(user?: string): void {
+    const now = Date.now();
+    const recent = (calls: number[], limit: RateLimit) =>
+      calls.filter((time) => time > now - limit.windowMs);
+
+    const { globalLimit, userLimit } = this.options;
+    if (globalLimit) {
+      this.globalCalls = recent(this.globalCalls, globalLimit);
+      if (this.globalCalls.length >= globalLimit.requests) {
+        throw new RateLimitError("Global AI rate limit exceeded");
+      }
+    }
+    let userCalls: number[] = [];
+    if (userLimit && user !== undefined) {
+      userCalls = recent(this.userCalls.get(user) ?? [], userLimit);
+      if (userCalls.length >= userLimit.requests) {
+        throw new RateLimitError(`AI rate limit exceeded for user ${user}`);
+      }
+    }
+
+    if (globalLimit) {
+      this.globalCalls.push(now);
+    }
+    if (userLimit && user !== undefined) {
+      this.userCalls.set(user, [...userCalls, now]);
+    }
+  }
+
+  /**
+   * Runs a call, retrying transient failures with exponential backoff.
+   */
+  private async withRetries<T>(call: () => Promise<T>): Promise<T> {
+    for (let attempt = 0;; attempt++) {
+      try {
+        return await call();
+      } catch (error) {
+        if (attempt >= this.maxRetries || !this.isTransient(error)) {
+          throw error;
+        }
+        const delay = this.baseDelayMs * 2 ** attempt;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Decides whether a failed call may succeed when repeated.
+   */
+  private isTransient(error: unknown): boolean {
+    // Network failures of fetch surface as TypeErrors
+    if (error instanceof TypeError) {
+      return true;
+    }
+    const status = (error as { status?: number })?.status;
+    return status !== undefined && TRANSIENT_STATUSES.includes(status);
+  }
+}
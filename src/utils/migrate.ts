@@ -0,0 +1,39 @@
+/**
+ * This script brings documents created by older versions of the concepts
+ * up to date with their current state shape. Migrations are idempotent,
+ * so it is safe to run the script more than once.
+ *
+ * Run this script using `deno task migrate`.
+ */
+import { getDb } from "@utils/database.ts";
+import EnrichedDAGConcept from "@concepts/EnrichedDAG/EnrichedDAGConcept.ts";
+import ResourceListConcept from "@concepts/ResourceList/ResourceListConcept.ts";
+
+/**
+ * Main execution function.
+ */
+async function main() {
+  const [db, client] = await getDb();
+
+  try {
+    console.log("Migrating EnrichedDAG edges...");
+    const enrichedDAG = new EnrichedDAGConcept(db);
+    const { migratedEdges } = await enrichedDAG.migrateEdgeGraphs();
+    console.log(`✅ Recorded parent graph on ${migratedEdges} edge(s)`);
+
+    console.log("Repairing ResourceList indices...");
+    const resourceList = new ResourceListConcept(db);
+    const { repairedLists } = await resourceList.repairDuplicateIndices();
+    console.log(`✅ Repaired ${repairedLists} list(s) with duplicate indices`);
+  } finally {
+    await client.close();
+  }
+}
+
+// Run the main function if this script is executed directly.
+if (import.meta.main) {
+  main().catch((err) => {
+    console.error("Error running migrations:", err);
+    Deno.exit(1);
+  });
+}
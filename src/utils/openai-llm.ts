@@ -0,0 +1,149 @@
+/**
+ * LLM Integration for OpenAI-compatible endpoints
+ *
+ * Talks to any server implementing the OpenAI chat completions API, such as a
+ * local model server, so the AI actions can run without a Gemini API key.
+ */
+
+import {
+  type CallOptions,
+  type LLMProvider,
+  LLMRequestError,
+  type LLMResult,
+} from "@utils/llm.ts";
+
+/**
+ * Configuration for API access
+ */
+export interface OpenAIConfig {
+  // Base URL of the API, e.g. "http://localhost:11434/v1"
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export class OpenAICompatibleLLM implements LLMProvider {
+  private baseUrl: string;
+  readonly model: string;
+  private apiKey?: string;
+
+  constructor(config: OpenAIConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+  }
+
+  /**
+   * Sends a chat completion request, throwing if the server rejects it.
+   */
+  private async request(
+    prompt: string,
+    options: CallOptions | undefined,
+    stream: boolean,
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: options?.maxOutputTokens ?? 1000,
+        stream,
+        ...(options?.temperature !== undefined && {
+          temperature: options.temperature,
+        }),
+        ...(options?.responseSchema && {
+          response_format: {
+            type: "json_schema",
+            json_schema: {
+              name: "response",
+              schema: options.responseSchema,
+            },
+          },
+        }),
+      }),
+    });
+    if (!response.ok) {
+      throw new LLMRequestError(
+        `Request failed with status ${response.status}: ${await response
+          .text()}`,
+        response.status,
+      );
+    }
+    return response;
+  }
+
+  async generate(prompt: string, options?: CallOptions): Promise<LLMResult> {
+    try {
+      const response = await this.request(prompt, options, false);
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new LLMRequestError("Response contains no message content");
+      }
+      const usage = data.usage && {
+        promptTokens: data.usage.prompt_tokens,
+        outputTokens: data.usage.completion_tokens,
+        totalTokens: data.usage.total_tokens,
+      };
+      return { text, model: data.model ?? this.model, usage };
+    } catch (error) {
+      console.error(
+        "❌ Error calling OpenAI-compatible API:",
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  async executeLLM(prompt: string, options?: CallOptions): Promise<string> {
+    return (await this.generate(prompt, options)).text;
+  }
+
+  async *stream(
+    prompt: string,
+    options?: CallOptions,
+  ): AsyncGenerator<string> {
+    try {
+      const response = await this.request(prompt, options, true);
+      if (!response.body) {
+        throw new LLMRequestError("Response has no body to stream");
+      }
+
+      // The answer arrives as server-sent events, one "data:" line per chunk
+      let buffer = "";
+      for await (
+        const text of response.body.pipeThrough(new TextDecoderStream())
+      ) {
+        buffer += text;
+        const lines = buffer.split("\n");
+        buffer = lines.pop()!;
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, "");
+          if (!line.startsWith("data:") || data === "[DONE]") {
+            continue;
+          }
+          let content: unknown;
+          try {
+            content = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          } catch {
+            // Some servers send comments or keep-alive payloads that aren't JSON
+            continue;
+          }
+          if (typeof content === "string" && content !== "") {
+            yield content;
+          }
+        }
+      }
+    } catch (error) {
+      console.error(
+        "❌ Error calling OpenAI-compatible API:",
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+}
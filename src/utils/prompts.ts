@@ -0,0 +1,136 @@
+/**
+ * Prompt Templates for RoadBuilder
+ *
+ * Prompts live in versioned files under src/prompts, named
+ * <Concept>/<name>.v<version>.txt, with {{variable}} placeholders. The newest
+ * version of a template is used, unless PROMPT_VERSIONS pins other versions:
+ *
+ *   PROMPT_VERSIONS=EnrichedDAG/suggestEdge=1,ObjectManager/suggestTitle=1|2
+ *
+ * When several versions are separated by "|", one of them is picked at random
+ * for every call, so that they can be A/B compared in the LLM audit log.
+ * PROMPT_VERSIONS is checked when this module loads, so that a typo stops the
+ * server from starting instead of failing every call of an action.
+ */
+
+// Directory holding the template files
+const PROMPTS_DIR = new URL("../prompts/", import.meta.url);
+
+/**
+ * A prompt ready to be sent, with the template and version it was made from
+ */
+export interface RenderedPrompt {
+  text: string;
+  // e.g. "EnrichedDAG/suggestEdge@v1", followed by the ids of the prompts filled
+  // into it in brackets, e.g. "EnrichedDAG/suggestEdgeRetry@v1[EnrichedDAG/suggestEdge@v1]"
+  templateId: string;
+}
+
+// Loaded templates by name, then by version
+const templates = new Map<string, Map<number, string>>();
+
+/**
+ * Reads all versions of a template, once.
+ */
+function loadVersions(name: string): Map<number, string> {
+  const loaded = templates.get(name);
+  if (loaded) {
+    return loaded;
+  }
+
+  const slash = name.lastIndexOf("/");
+  const dir = new URL(name.slice(0, slash + 1), PROMPTS_DIR);
+  const pattern = new RegExp(`^${name.slice(slash + 1)}\\.v(\\d+)\\.txt$`);
+  const versions = new Map<number, string>();
+  try {
+    for (const entry of Deno.readDirSync(dir)) {
+      const match = entry.name.match(pattern);
+      if (entry.isFile && match) {
+        const text = Deno.readTextFileSync(new URL(entry.name, dir));
+        // Editors add a final newline that isn't part of the prompt
+        versions.set(Number(match[1]), text.replace(/\r?\n$/, ""));
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+  if (versions.size === 0) {
+    throw new Error(`Unknown prompt template: ${name}`);
+  }
+
+  templates.set(name, versions);
+  return versions;
+}
+
+/**
+ * Parses PROMPT_VERSIONS into the pinned versions by template, throwing if an
+ * entry is malformed or names a template or version that doesn't exist.
+ */
+function parsePinnedVersions(setting: string): Map<string, number[]> {
+  const pinned = new Map<string, number[]>();
+  for (const entry of setting.split(",")) {
+    if (entry.trim() === "") {
+      continue;
+    }
+    const [name, versions, ...rest] = entry.split("=").map((s) => s.trim());
+    const numbers = (versions ?? "").split("|")
+      .map((version) => version.trim() === "" ? NaN : Number(version));
+    if (!name || rest.length > 0 || !numbers.every(Number.isInteger)) {
+      throw new Error(`Invalid PROMPT_VERSIONS entry: ${entry}`);
+    }
+    const available = loadVersions(name);
+    const unknown = numbers.find((version) => !available.has(version));
+    if (unknown !== undefined) {
+      throw new Error(
+        `Unknown version ${unknown} of prompt template ${name} in PROMPT_VERSIONS`,
+      );
+    }
+    pinned.set(name, numbers);
+  }
+  return pinned;
+}
+
+// Versions pinned by PROMPT_VERSIONS, by template
+const pinnedVersions = parsePinnedVersions(
+  Deno.env.get("PROMPT_VERSIONS") ?? "",
+);
+
+/**
+ * Fills in the variables of a template. Uses the given version, or else the
+ * pinned or newest one. Variables can be other rendered prompts, whose
+ * template ids are then kept in the id of the result.
+ */
+export function renderPrompt(
+  name: string,
+  variables: Record<string, string | number | RenderedPrompt>,
+  version?: number,
+): RenderedPrompt {
+  const versions = loadVersions(name);
+  const choices = version !== undefined
+    ? [version]
+    : pinnedVersions.get(name) ?? [Math.max(...versions.keys())];
+  const chosen = choices[Math.floor(Math.random() * choices.length)];
+
+  const template = versions.get(chosen);
+  if (template === undefined) {
+    throw new Error(`Unknown version ${chosen} of prompt template ${name}`);
+  }
+
+  const nested: string[] = [];
+  const text = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+    if (!(key in variables)) {
+      throw new Error(`Missing variable ${key} for prompt template ${name}`);
+    }
+    const value = variables[key];
+    if (typeof value === "object") {
+      nested.push(value.templateId);
+      return value.text;
+    }
+    return String(value);
+  });
+  const templateId = `${name}@v${chosen}` +
+    (nested.length > 0 ? `[${nested.join(",")}]` : "");
+  return { text, templateId };
+}
@@ -0,0 +1,127 @@
+import { assertEquals } from "jsr:@std/assert";
+import { rankBetween, spreadRanks } from "@utils/rank.ts";
+
+/**
+ * Asserts that rank sorts strictly between before and after, where a missing
+ * bound is open, and that it is a valid rank itself.
+ */
+function assertBetween(rank: string, before?: string, after?: string) {
+  assertEquals(
+    (before === undefined || before < rank) &&
+      (after === undefined || rank < after),
+    true,
+    `"${rank}" should sort between "${before ?? ""}" and "${after ?? ""}"`,
+  );
+  assertEquals(rank.endsWith("0"), false, `"${rank}" should not end in "0"`);
+}
+
+/**
+ * Returns whether rankBetween rejects the bounds with a RangeError.
+ */
+function rejects(before?: string, after?: string): boolean {
+  try {
+    rankBetween(before, after);
+    return false;
+  } catch (error) {
+    return error instanceof RangeError;
+  }
+}
+
+Deno.test("rankBetween finds ranks at the ends of a list", () => {
+  console.log("\n# Testing Ranks at the Ends");
+
+  console.log("\n## 1. First rank of an empty list");
+  assertBetween(rankBetween());
+  console.log(`✓ First rank is ${rankBetween()}`);
+
+  console.log("\n## 2. Ranks before the first rank");
+  let first = "1";
+  for (let i = 0; i < 50; i++) {
+    const rank = rankBetween(undefined, first);
+    assertBetween(rank, undefined, first);
+    first = rank;
+  }
+  assertBetween(rankBetween(undefined, "01"), undefined, "01");
+  console.log(`✓ 50 prepends reached ${first}`);
+
+  console.log("\n## 3. Ranks after the last rank");
+  let last = "z";
+  for (let i = 0; i < 50; i++) {
+    const rank = rankBetween(last);
+    assertBetween(rank, last);
+    last = rank;
+  }
+  assertBetween(rankBetween("zzz"), "zzz");
+  console.log(`✓ 50 appends reached ${last}`);
+});
+
+Deno.test("rankBetween finds ranks between close neighbours", () => {
+  console.log("\n# Testing Ranks Between Neighbours");
+
+  console.log("\n## 1. Adjacent digits");
+  for (const [before, after] of [["1", "2"], ["9", "A"], ["Z", "a"]]) {
+    assertBetween(rankBetween(before, after), before, after);
+  }
+  console.log("✓ Ranks found between adjacent digits");
+
+  console.log("\n## 2. Long common prefixes");
+  const prefix = "V".repeat(20);
+  for (
+    const [before, after] of [
+      [`${prefix}1`, `${prefix}2`],
+      [prefix, `${prefix}01`],
+      [`${prefix}z`, `${prefix}zz`],
+      [`${prefix}1zzz`, `${prefix}2`],
+    ]
+  ) {
+    const rank = rankBetween(before, after);
+    assertBetween(rank, before, after);
+    assertEquals(rank.startsWith(prefix), true, "The prefix should be kept");
+  }
+  console.log("✓ Ranks found after long common prefixes");
+
+  console.log("\n## 3. Repeated inserts into the same gap");
+  let [before, after] = ["1", "2"];
+  for (let i = 0; i < 100; i++) {
+    const rank = rankBetween(before, after);
+    assertBetween(rank, before, after);
+    // Alternate sides, so that the gap shrinks from both ends
+    [before, after] = i % 2 === 0 ? [rank, after] : [before, rank];
+  }
+  console.log(`✓ 100 inserts stayed ordered, reaching ${before}`);
+});
+
+Deno.test("rankBetween rejects invalid ranks", () => {
+  console.log("\n# Testing Invalid Ranks");
+
+  console.log("\n## 1. Malformed ranks");
+  for (const rank of ["", "10", "a-b", "ä", "1 "]) {
+    assertEquals(rejects(rank), true, `"${rank}" is not a rank`);
+    assertEquals(rejects(undefined, rank), true, `"${rank}" is not a rank`);
+  }
+  console.log("✗ Malformed ranks were rejected");
+
+  console.log("\n## 2. Bounds out of order");
+  assertEquals(rejects("b", "a"), true, "before must sort before after");
+  assertEquals(rejects("a", "a"), true, "Equal ranks leave no room");
+  console.log("✗ Bounds out of order were rejected");
+});
+
+Deno.test("spreadRanks gives increasing ranks", () => {
+  console.log("\n# Testing Spread Ranks");
+
+  console.log("\n## 1. Small counts");
+  assertEquals(spreadRanks(0), []);
+  assertEquals(spreadRanks(1), ["1"]);
+  console.log("✓ Empty and single lists");
+
+  console.log("\n## 2. A long list");
+  const ranks = spreadRanks(1000);
+  assertEquals(ranks.length, 1000);
+  for (let i = 1; i < ranks.length; i++) {
+    assertBetween(ranks[i], ranks[i - 1]);
+  }
+  // Every gap leaves room for inserts
+  assertBetween(rankBetween(ranks[499], ranks[500]), ranks[499], ranks[500]);
+  console.log(`✓ 1000 increasing ranks, the last is ${ranks.at(-1)}`);
+});
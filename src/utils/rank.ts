@@ -0,0 +1,82 @@
+/**
+ * Fractional Rank Keys for RoadBuilder
+ *
+ * A rank is a string of base-62 digits read as a fraction between 0 and 1, so
+ * ranks sort with plain string comparison and there is always another rank
+ * between any two of them. Ordering items by rank lets an item be inserted or
+ * moved by writing only its own rank.
+ *
+ * Ranks never end in "0", since "U" and "U0" would be the same fraction.
+ */
+
+// Digits in ASCII order, so that string order matches numeric order
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Finds a rank between before and after, where "" stands for 0 and undefined for 1.
+ */
+function midpoint(before: string, after: string | undefined): string {
+  if (after !== undefined) {
+    // Keep the common prefix and look for room after it
+    let n = 0;
+    while ((before[n] ?? DIGITS[0]) === after[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return after.slice(0, n) +
+        midpoint(before.slice(n), after.slice(n));
+    }
+  }
+
+  const digitBefore = before ? DIGITS.indexOf(before[0]) : 0;
+  const digitAfter = after !== undefined
+    ? DIGITS.indexOf(after[0])
+    : DIGITS.length;
+  if (digitAfter - digitBefore > 1) {
+    // Step by one digit when appending, so that ranks grow slowly on long lists
+    return after === undefined && before
+      ? DIGITS[digitBefore + 1]
+      : DIGITS[Math.round((digitBefore + digitAfter) / 2)];
+  }
+
+  // The first digits are adjacent, so the rank needs another digit
+  if (after !== undefined && after.length > 1) {
+    return after[0];
+  }
+  const rest = before.slice(1);
+  return DIGITS[digitBefore] +
+    (after === undefined && !rest ? DIGITS[1] : midpoint(rest, undefined));
+}
+
+/**
+ * Returns a rank that sorts after before and before after. Leaving out before
+ * gives a rank at the start, leaving out after gives a rank at the end.
+ */
+export function rankBetween(before?: string, after?: string): string {
+  for (const rank of [before, after]) {
+    if (
+      rank !== undefined &&
+      (rank === "" || rank.endsWith(DIGITS[0]) ||
+        [...rank].some((c) => !DIGITS.includes(c)))
+    ) {
+      throw new RangeError(`Invalid rank "${rank}"`);
+    }
+  }
+  if (before !== undefined && after !== undefined && before >= after) {
+    throw new RangeError(`Rank "${before}" does not sort before "${after}"`);
+  }
+
+  return midpoint(before ?? "", after);
+}
+
+/**
+ * Returns count increasing ranks, for giving a whole list fresh ranks. They
+ * start low, leaving most of the room for later appends.
+ */
+export function spreadRanks(count: number): string[] {
+  const ranks: string[] = [];
+  for (let i = 0; i < count; i++) {
+    ranks.push(i === 0 ? DIGITS[1] : rankBetween(ranks[i - 1]));
+  }
+  return ranks;
+}
@@ -0,0 +1,89 @@
+/**
+ * Deterministic LLM stub for offline tests
+ *
+ * Replays canned responses keyed by the SHA-256 hash of the prompt, then answers
+ * from a script in order. When a recording provider is given, prompts without a
+ * canned response are forwarded to it and its answers are stored, so they can be
+ * saved with toJSON() and replayed later.
+ */
+
+import {
+  type CallOptions,
+  type LLMProvider,
+  type LLMResult,
+  sha256Hex,
+} from "@utils/llm.ts";
+
+/**
+ * Configuration for the stub
+ */
+export interface StubConfig {
+  // Canned responses keyed by prompt hash, as produced by StubLLM.hashPrompt
+  responses?: Record<string, string>;
+  // Responses returned in order for prompts without a canned response
+  script?: string[];
+  // Real provider used to record responses for unknown prompts
+  recordFrom?: LLMProvider;
+}
+
+export class StubLLM implements LLMProvider {
+  readonly model = "stub";
+  // Every prompt received, in order
+  readonly prompts: string[] = [];
+  private responses: Record<string, string>;
+  private script: string[];
+  private recordFrom?: LLMProvider;
+
+  constructor(config: StubConfig = {}) {
+    this.responses = { ...config.responses };
+    this.script = [...(config.script ?? [])];
+    this.recordFrom = config.recordFrom;
+  }
+
+  /**
+   * Computes the key under which the response to a prompt is stored.
+   */
+  static hashPrompt(prompt: string): Promise<string> {
+    return sha256Hex(prompt);
+  }
+
+  async generate(prompt: string, options?: CallOptions): Promise<LLMResult> {
+    this.prompts.push(prompt);
+    const hash = await StubLLM.hashPrompt(prompt);
+
+    if (hash in this.responses) {
+      return { text: this.responses[hash], model: this.model };
+    }
+    if (this.script.length > 0) {
+      return { text: this.script.shift()!, model: this.model };
+    }
+    if (this.recordFrom) {
+      const result = await this.recordFrom.generate(prompt, options);
+      this.responses[hash] = result.text;
+      return result;
+    }
+    throw new Error(`No stubbed response for prompt ${hash}`);
+  }
+
+  async executeLLM(prompt: string, options?: CallOptions): Promise<string> {
+    return (await this.generate(prompt, options)).text;
+  }
+
+  /**
+   * Streams the same answer as generate(), one word at a time.
+   */
+  async *stream(
+    prompt: string,
+    options?: CallOptions,
+  ): AsyncGenerator<string> {
+    const { text } = await this.generate(prompt, options);
+    yield* text.split(/(?<=\s)/);
+  }
+
+  /**
+   * Returns all known responses keyed by prompt hash, including recorded ones.
+   */
+  toJSON(): Record<string, string> {
+    return { ...this.responses };
+  }
+}